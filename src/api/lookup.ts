@@ -0,0 +1,91 @@
+import { getAllAlbums, getAllTags, searchPerson } from "@immich/sdk";
+import { OptionError } from "../registry.ts";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/** Resolves album IDs or names (exact, then case-insensitive) to album IDs. */
+export async function resolveAlbumIds(refs: string[]): Promise<string[]> {
+  if (refs.length === 0) return [];
+
+  const albums = await getAllAlbums({});
+  return refs.map((ref) => {
+    const byId = albums.find((album) => album.id === ref);
+    if (byId) return byId.id;
+
+    const exact = albums.filter((album) => album.albumName === ref);
+    const matches =
+      exact.length > 0
+        ? exact
+        : albums.filter((album) => album.albumName.toLowerCase() === ref.toLowerCase());
+
+    if (matches.length === 0) {
+      if (isUuid(ref)) return ref;
+      throw new OptionError(`Album not found: "${ref}"`);
+    }
+    if (matches.length > 1) {
+      throw new OptionError(
+        `Album name "${ref}" is ambiguous (${matches.length} albums). Use the album ID instead.`,
+      );
+    }
+    return matches[0]!.id;
+  });
+}
+
+/** Resolves person IDs or names to person IDs, rejecting ambiguous names. */
+export async function resolvePersonIds(refs: string[]): Promise<string[]> {
+  const ids: string[] = [];
+
+  for (const ref of refs) {
+    if (isUuid(ref)) {
+      ids.push(ref);
+      continue;
+    }
+
+    const people = await searchPerson({ name: ref, withHidden: true });
+    const exact = people.filter(
+      (person) => person.name.toLowerCase() === ref.toLowerCase(),
+    );
+    const matches = exact.length > 0 ? exact : people;
+
+    if (matches.length === 0) {
+      throw new OptionError(`Person not found: "${ref}"`);
+    }
+    if (matches.length > 1) {
+      throw new OptionError(
+        `Person name "${ref}" is ambiguous: ${matches.map((person) => person.name).join(", ")}`,
+      );
+    }
+    ids.push(matches[0]!.id);
+  }
+
+  return ids;
+}
+
+/** Resolves tag IDs, full tag values (e.g. "Travel/Japan") or tag names to tag IDs. */
+export async function resolveTagIds(refs: string[]): Promise<string[]> {
+  if (refs.length === 0) return [];
+
+  const tags = await getAllTags();
+  return refs.map((ref) => {
+    const byIdOrValue = tags.find((tag) => tag.id === ref || tag.value === ref);
+    if (byIdOrValue) return byIdOrValue.id;
+
+    const byName = tags.filter(
+      (tag) => tag.name.toLowerCase() === ref.toLowerCase(),
+    );
+    if (byName.length === 0) {
+      throw new OptionError(`Tag not found: "${ref}"`);
+    }
+    if (byName.length > 1) {
+      throw new OptionError(
+        `Tag name "${ref}" is ambiguous: ${byName.map((tag) => tag.value).join(", ")}`,
+      );
+    }
+    return byName[0]!.id;
+  });
+}
@@ -0,0 +1,59 @@
+import { isHttpError } from "@immich/sdk";
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+}
+
+/** Server errors, rate limiting and dropped connections are worth another try. */
+export function isTransientError(err: unknown): boolean {
+  if (isHttpError(err)) {
+    return err.status === 429 || err.status >= 500;
+  }
+
+  if (err instanceof Error) {
+    return (
+      (err.name === "TypeError" && err.message.includes("fetch")) ||
+      err.name === "TimeoutError" ||
+      /ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket/i.test(err.message)
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Runs `fn`, retrying transient errors with exponential backoff
+ * (baseDelayMs, 2 × baseDelayMs, 4 × baseDelayMs, ...). Other errors are
+ * rethrown immediately. Only use this for calls that are safe to repeat.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= options.retries || !isTransientError(err)) {
+        throw err;
+      }
+      await Bun.sleep(options.baseDelayMs * 2 ** attempt);
+    }
+  }
+}
+
+/** Calls `worker` for every item with at most `concurrency` calls in flight. */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const runnerCount = Math.min(Math.max(concurrency, 1), items.length);
+  const runners = Array.from({ length: runnerCount }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index]!, index);
+    }
+  });
+
+  await Promise.all(runners);
+}
@@ -0,0 +1,432 @@
+import { parseDate, parseDateRange, validateTimeZone, type DateRange } from "../dates.ts";
+import { OptionError } from "../registry.ts";
+import {
+  formatAssetCount,
+  hasAssetFilter,
+  printAlbumReport,
+  runAutoAlbum,
+  type AlbumReportEntry,
+  type AutoAlbumOptions,
+  type AutoAlbumResult,
+} from "./auto-album.ts";
+import { getLocationIndex, matchLocationValues, type LocationIndex } from "./locations.ts";
+import { compileRegex } from "./stack.ts";
+
+/** A VEVENT reduced to what an album needs. */
+export interface CalendarEvent {
+  summary: string;
+  /** Plain dates for all-day events, ISO timestamps otherwise. */
+  after: string;
+  before: string;
+  allDay: boolean;
+  location?: string;
+  categories: string[];
+  /** Line of the event's BEGIN:VEVENT, for messages. */
+  line: number;
+}
+
+export interface CalendarParseResult {
+  events: CalendarEvent[];
+  /** Summaries of recurring events, which are not expanded. */
+  recurring: string[];
+}
+
+export interface EventFilter {
+  categories: string[];
+  summary?: RegExp;
+}
+
+/** The options shared by every event; name, dates and locations come from the event. */
+export type IcsAlbumOptions = Omit<AutoAlbumOptions, "name" | "after" | "before" | "locations"> & {
+  icsPath: string;
+  categories: string[];
+  /** Regular expression the event summary must match. */
+  summaryPattern?: string;
+  /** Only events overlapping this window are used. */
+  after?: string;
+  before?: string;
+};
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+  line: number;
+}
+
+interface CalendarTime {
+  /** A plain date, or an ISO timestamp for timed events. */
+  value: string;
+  allDay: boolean;
+}
+
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})$/;
+const DATE_TIME_VALUE = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/i;
+const DURATION_VALUE = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i;
+
+/** Joins folded lines (continuations start with a space or tab) and keeps their first line number. */
+function unfoldLines(text: string): Array<{ text: string; line: number }> {
+  const lines: Array<{ text: string; line: number }> = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const previous = lines[lines.length - 1];
+    if (previous && /^[ \t]/.test(raw)) {
+      previous.text += raw.slice(1);
+    } else if (raw.trim() !== "") {
+      lines.push({ text: raw, line: index + 1 });
+    }
+  });
+  return lines;
+}
+
+function parseProperty(text: string, line: number): Property | undefined {
+  // The value starts at the first colon outside a quoted parameter value.
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') inQuotes = !inQuotes;
+    else if (text[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return undefined;
+
+  const [name, ...rawParams] = text.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...value] = param.split("=");
+    params[key!.toUpperCase()] = value.join("=").replace(/^"|"$/g, "");
+  }
+  return { name: name!.toUpperCase(), params, value: text.slice(colon + 1), line };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+}
+
+/** Splits a list value on unescaped commas. */
+function splitList(value: string): string[] {
+  return value
+    .split(/(?<!\\),/)
+    .map((item) => unescapeText(item).trim())
+    .filter((item) => item !== "");
+}
+
+function formatPlainDate(year: number, month: number, day: number): string {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(plainDate: string, days: number): string {
+  const [year, month, day] = plainDate.split("-").map(Number) as [number, number, number];
+  return formatPlainDate(year, month, day + days);
+}
+
+function parseTime(property: Property, timeZone: string | undefined): CalendarTime {
+  const value = property.value.trim();
+  const date = DATE_VALUE.exec(value);
+  if (date) {
+    return { value: `${date[1]}-${date[2]}-${date[3]}`, allDay: true };
+  }
+
+  const dateTime = DATE_TIME_VALUE.exec(value);
+  if (!dateTime) {
+    throw new Error(`${property.name} "${value}" is not a date or date-time`);
+  }
+  const local = `${dateTime[1]}-${dateTime[2]}-${dateTime[3]}T${dateTime[4]}:${dateTime[5]}:${dateTime[6]}`;
+  if (dateTime[7]) {
+    return { value: parseDate(`${local}Z`, "start"), allDay: false };
+  }
+
+  // Floating times (no TZID) are read in --tz, like date filters.
+  const zone = property.params.TZID?.replace(/^\//, "");
+  if (zone !== undefined) {
+    try {
+      validateTimeZone(zone);
+    } catch {
+      throw new Error(`unknown time zone "${zone}" in ${property.name}`);
+    }
+  }
+  return { value: parseDate(local, "start", { timeZone: zone ?? timeZone }), allDay: false };
+}
+
+function durationMs(property: Property): number {
+  const match = DURATION_VALUE.exec(property.value.trim());
+  if (!match || property.value.trim().length <= 1) {
+    throw new Error(`DURATION "${property.value}" is not a duration such as P3D or PT2H`);
+  }
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map((part) => Number(part ?? 0));
+  return ((((weeks! * 7 + days!) * 24 + hours!) * 60 + minutes!) * 60 + seconds!) * 1000;
+}
+
+/**
+ * Works out the inclusive range an event covers. All-day DTEND values are
+ * exclusive, so an event ending on the 15th ends on the 14th; timed events
+ * end one millisecond before DTEND.
+ */
+function eventRange(
+  properties: Map<string, Property>,
+  timeZone: string | undefined,
+): { after: string; before: string; allDay: boolean } {
+  const startProperty = properties.get("DTSTART");
+  if (!startProperty) {
+    throw new Error("DTSTART is missing");
+  }
+  const start = parseTime(startProperty, timeZone);
+  const endProperty = properties.get("DTEND");
+  const duration = properties.get("DURATION");
+
+  if (start.allDay) {
+    let last = start.value;
+    if (endProperty) {
+      const end = parseTime(endProperty, timeZone);
+      if (!end.allDay) throw new Error("DTEND must be a date when DTSTART is a date");
+      last = addDays(end.value, -1);
+    } else if (duration) {
+      last = addDays(start.value, Math.max(1, Math.round(durationMs(duration) / 86_400_000)) - 1);
+    }
+    if (last < start.value) throw new Error("DTEND is before DTSTART");
+    return { after: start.value, before: last, allDay: true };
+  }
+
+  let end = Date.parse(start.value);
+  if (endProperty) {
+    const parsed = parseTime(endProperty, timeZone);
+    if (parsed.allDay) throw new Error("DTEND must be a date-time when DTSTART is a date-time");
+    end = Date.parse(parsed.value);
+  } else if (duration) {
+    end += durationMs(duration);
+  }
+  if (end < Date.parse(start.value)) throw new Error("DTEND is before DTSTART");
+  const before = end > Date.parse(start.value) ? end - 1 : end;
+  return { after: start.value, before: new Date(before).toISOString(), allDay: false };
+}
+
+/**
+ * Reads the VEVENTs of an iCalendar file. Cancelled events are dropped and
+ * recurring ones are listed separately, since their occurrences aren't
+ * expanded. All problems are reported together with line numbers.
+ */
+export function parseCalendar(
+  text: string,
+  source: string,
+  timeZone?: string,
+): CalendarParseResult {
+  const result: CalendarParseResult = { events: [], recurring: [] };
+  const errors: string[] = [];
+  let properties: Map<string, Property> | undefined;
+  let categories: string[] = [];
+  let eventLine = 0;
+  let depth = 0;
+
+  for (const { text: raw, line } of unfoldLines(text)) {
+    const property = parseProperty(raw, line);
+    if (!property) {
+      errors.push(`  ${source}:${line}: expected NAME:value, got "${raw}"`);
+      continue;
+    }
+
+    if (property.name === "BEGIN") {
+      if (property.value.toUpperCase() === "VEVENT" && !properties) {
+        properties = new Map();
+        categories = [];
+        eventLine = line;
+        depth = 0;
+      } else if (properties) {
+        depth++;
+      }
+      continue;
+    }
+    if (property.name === "END" && properties) {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+      const summary = unescapeText(properties.get("SUMMARY")?.value ?? "").trim();
+      const label = summary ? `event "${summary}"` : "event";
+      try {
+        if (!summary) throw new Error("SUMMARY is missing");
+        const status = properties.get("STATUS")?.value.toUpperCase();
+        if (properties.has("RRULE")) {
+          result.recurring.push(summary);
+        } else if (status !== "CANCELLED") {
+          const location = unescapeText(properties.get("LOCATION")?.value ?? "").trim();
+          result.events.push({
+            summary,
+            ...eventRange(properties, timeZone),
+            location: location || undefined,
+            categories,
+            line: eventLine,
+          });
+        }
+      } catch (err) {
+        errors.push(
+          `  ${source}:${eventLine}: ${label}: ${err instanceof Error ? err.message : "Unknown error"}`,
+        );
+      }
+      properties = undefined;
+      continue;
+    }
+
+    // Properties of nested components such as VALARM don't describe the event.
+    if (properties && depth === 0) {
+      if (property.name === "CATEGORIES") {
+        categories.push(...splitList(property.value));
+      } else if (!properties.has(property.name)) {
+        properties.set(property.name, property);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new OptionError(`Invalid calendar file ${source}:\n${errors.join("\n")}`);
+  }
+  return result;
+}
+
+/** Keeps events with any of the categories (ignoring case) whose summary matches. */
+export function filterEvents(events: CalendarEvent[], filter: EventFilter): CalendarEvent[] {
+  const wanted = filter.categories.map((category) => category.toLowerCase());
+  return events.filter(
+    (event) =>
+      (wanted.length === 0 ||
+        event.categories.some((category) => wanted.includes(category.toLowerCase()))) &&
+      (!filter.summary || filter.summary.test(event.summary)),
+  );
+}
+
+/**
+ * Turns an event's LOCATION into location filters. Addresses like
+ * "Hotel Roma, Via Veneto 1, Rome, Italy" are split on commas and the most
+ * specific parts your library knows are used (cities before states before
+ * countries). When no part is known, the whole value is searched as-is.
+ */
+export function eventLocations(location: string | undefined, index: LocationIndex): string[] {
+  if (!location) return [];
+
+  const parts = location
+    .split(/[,\n]/)
+    .map((part) => part.trim())
+    .filter((part) => part !== "");
+  for (const type of ["city", "state", "country"] as const) {
+    const matches = parts.filter((part) => matchLocationValues(part, index[type]).length > 0);
+    if (matches.length > 0) return [...new Set(matches)];
+  }
+  return [location];
+}
+
+/** Names albums after their events, adding the start date when several events share a summary. */
+export function eventAlbumNames(events: CalendarEvent[]): string[] {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    counts.set(event.summary, (counts.get(event.summary) ?? 0) + 1);
+  }
+  return events.map((event) =>
+    counts.get(event.summary)! > 1 ? `${event.summary} (${event.after.slice(0, 10)})` : event.summary,
+  );
+}
+
+function formatEventDates(event: CalendarEvent): string {
+  if (event.allDay) {
+    return event.after === event.before ? event.after : `${event.after} to ${event.before}`;
+  }
+  return `${event.after.slice(0, 16).replace("T", " ")} to ${event.before.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function overlapsWindow(event: CalendarEvent, window: DateRange, timeZone?: string): boolean {
+  const start = parseDate(event.after, "start", { timeZone });
+  const end = parseDate(event.before, "end", { timeZone });
+  return (!window.before || start <= window.before) && (!window.after || end >= window.after);
+}
+
+export async function autoAlbumIcs(options: IcsAlbumOptions): Promise<number> {
+  const file = Bun.file(options.icsPath);
+  if (!(await file.exists())) {
+    throw new OptionError(`Calendar file not found: ${options.icsPath}`);
+  }
+  const filter: EventFilter = {
+    categories: options.categories,
+    summary: options.summaryPattern ? compileRegex(options.summaryPattern, "ics-summary") : undefined,
+  };
+  const window = parseDateRange(options.after, options.before, { timeZone: options.timeZone });
+  const calendar = parseCalendar(await file.text(), options.icsPath, options.timeZone);
+  const events = filterEvents(calendar.events, filter).filter((event) =>
+    overlapsWindow(event, window, options.timeZone),
+  );
+
+  console.log(`\nLoaded ${calendar.events.length} events from ${options.icsPath}`);
+  if (calendar.recurring.length > 0) {
+    console.warn(
+      `  Warning: Skipped ${calendar.recurring.length} recurring event(s), which are not expanded: ${calendar.recurring.join(", ")}`,
+    );
+  }
+  console.log(`  Selected:       ${events.length}`);
+  if (events.length === 0) {
+    console.log();
+    return 0;
+  }
+
+  const index = await getLocationIndex();
+  const names = eventAlbumNames(events);
+  // Without a location or another filter, an event would match every asset in its dates.
+  const hasSharedFilter = hasAssetFilter({ ...options, locations: [] });
+  const report: Array<AlbumReportEntry & { event: CalendarEvent; locations: string[] }> = [];
+  const skipped: Array<{ name: string; event: CalendarEvent }> = [];
+
+  for (const [i, event] of events.entries()) {
+    const locations = eventLocations(event.location, index);
+    if (locations.length === 0 && !hasSharedFilter) {
+      skipped.push({ name: names[i]!, event });
+      continue;
+    }
+    let result: AutoAlbumResult;
+    try {
+      result = await runAutoAlbum({
+        ...options,
+        name: names[i]!,
+        after: event.after,
+        before: event.before,
+        locations,
+      });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : "Unknown error";
+      console.error(`\nError: ${error}\n`);
+      result = { status: "failed", matched: 0, added: 0, removed: 0, error };
+    }
+    report.push({ name: names[i]!, result, event, locations });
+  }
+
+  const rows = [...report, ...skipped];
+  const nameWidth = Math.max(...rows.map(({ name }) => name.length));
+  const dateWidth = Math.max(...rows.map(({ event }) => formatEventDates(event).length));
+  console.log("Events:");
+  for (const { name, event, locations, result } of report) {
+    const where = locations.length > 0 ? locations.join(", ") : "(any location)";
+    console.log(
+      `  ${name.padEnd(nameWidth)}  ${formatEventDates(event).padEnd(dateWidth)}  ${formatAssetCount(result.matched).padStart(12)}  ${where}`,
+    );
+  }
+  for (const { name, event } of skipped) {
+    console.log(
+      `  ${name.padEnd(nameWidth)}  ${formatEventDates(event).padEnd(dateWidth)}  ${"skipped".padStart(12)}  (no LOCATION)`,
+    );
+  }
+  console.log();
+
+  if (skipped.length > 0) {
+    console.warn(
+      `  Warning: Skipped ${skipped.length} event(s) without a LOCATION; add --person, --tag or another filter to include them.\n`,
+    );
+  }
+  if (report.length === 0) {
+    return 0;
+  }
+
+  printAlbumReport("Calendar report", report);
+
+  return report.some(({ result }) => result.status === "failed" || result.status === "exists")
+    ? 1
+    : 0;
+}
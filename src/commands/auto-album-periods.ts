@@ -0,0 +1,200 @@
+import { getAllAlbums } from "@immich/sdk";
+import { OptionError } from "../registry.ts";
+import {
+  checkExistingAlbum,
+  findMatchingAssets,
+  formatAssetCount,
+  parseRequiredDateRange,
+  printAlbumReport,
+  printCriteria,
+  resolveScope,
+  saveAlbum,
+  type AlbumReportEntry,
+  type AutoAlbumOptions,
+  type AutoAlbumResult,
+} from "./auto-album.ts";
+import { resolveAlbumSettings } from "./auto-album-settings.ts";
+
+export const GROUP_PERIODS = ["day", "week", "month", "year"] as const;
+
+export type GroupPeriod = (typeof GROUP_PERIODS)[number];
+
+/** The calendar period an asset falls in. Week periods use ISO weeks and week-numbering years. */
+export interface Period {
+  key: string;
+  year: string;
+  month: string;
+  day: string;
+  week: string;
+}
+
+export interface PeriodGroup {
+  period: Period;
+  assetIds: string[];
+}
+
+interface DatedAsset {
+  id: string;
+  localDate?: string;
+}
+
+const TEMPLATE_PLACEHOLDERS: Record<GroupPeriod, string[]> = {
+  day: ["year", "month", "day", "week"],
+  week: ["year", "week"],
+  month: ["year", "month"],
+  year: ["year"],
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** Returns the period containing `localDate` (YYYY-MM-DD). */
+export function periodOf(localDate: string, unit: GroupPeriod): Period {
+  const [year, month, day] = localDate.split("-").map(Number) as [number, number, number];
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  // ISO weeks start on Monday and belong to the year that contains their Thursday.
+  const thursday = new Date(date);
+  thursday.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7) + 3);
+  const weekYear = thursday.getUTCFullYear();
+  const firstThursday = new Date(Date.UTC(weekYear, 0, 4));
+  firstThursday.setUTCDate(4 - ((firstThursday.getUTCDay() + 6) % 7) + 3);
+  const week = 1 + Math.round((thursday.getTime() - firstThursday.getTime()) / (7 * 86_400_000));
+
+  const period: Period = {
+    key: "",
+    year: String(year),
+    month: pad(month),
+    day: pad(day),
+    week: pad(week),
+  };
+  switch (unit) {
+    case "day":
+      return { ...period, key: localDate };
+    case "week":
+      return { ...period, year: String(weekYear), key: `${weekYear}-W${period.week}` };
+    case "month":
+      return { ...period, key: `${year}-${period.month}` };
+    case "year":
+      return { ...period, key: period.year };
+  }
+}
+
+/** Groups assets by period in chronological order. Assets without a capture date are left out. */
+export function groupAssetsByPeriod(assets: DatedAsset[], unit: GroupPeriod): PeriodGroup[] {
+  const groups = new Map<string, PeriodGroup>();
+  for (const asset of assets) {
+    if (!asset.localDate) continue;
+    const period = periodOf(asset.localDate, unit);
+    const group = groups.get(period.key);
+    if (group) {
+      group.assetIds.push(asset.id);
+    } else {
+      groups.set(period.key, { period, assetIds: [asset.id] });
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => a.period.key.localeCompare(b.period.key));
+}
+
+/**
+ * Checks that a name template only uses placeholders that make sense for the
+ * period and includes the period itself, so each album gets its own name.
+ */
+export function validateNameTemplate(
+  template: string,
+  unit: GroupPeriod,
+  locations: string[],
+): void {
+  const allowed = [...TEMPLATE_PLACEHOLDERS[unit], "location"];
+  const used = [...template.matchAll(/\{(\w+)\}/g)].map((match) => match[1]!);
+
+  const unknown = used.filter((name) => !allowed.includes(name));
+  if (unknown.length > 0) {
+    throw new OptionError(
+      `Invalid --name template for --group-by ${unit}: unknown placeholder {${unknown[0]}}. Expected any of: ${allowed.map((name) => `{${name}}`).join(", ")}`,
+    );
+  }
+  if (!used.includes(unit)) {
+    throw new OptionError(
+      `Invalid --name template for --group-by ${unit}: it must include {${unit}} so every album gets its own name`,
+    );
+  }
+  if (used.includes("location") && locations.length === 0) {
+    throw new OptionError("The {location} placeholder requires --location");
+  }
+}
+
+export function formatAlbumName(template: string, period: Period, locations: string[]): string {
+  const values: Record<string, string> = {
+    year: period.year,
+    month: period.month,
+    day: period.day,
+    week: period.week,
+    location: locations.join(", "),
+  };
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Runs the search once, then creates or syncs one album per period that has
+ * matches. Each generated name goes through the same existing-album check as
+ * a single album.
+ */
+export async function runGroupedAutoAlbum(
+  options: AutoAlbumOptions,
+  unit: GroupPeriod,
+): Promise<AutoAlbumResult[]> {
+  if (options.removeMissing && !options.sync) {
+    throw new OptionError("--remove-missing requires --sync");
+  }
+  validateNameTemplate(options.name, unit, options.locations);
+  const { after: afterDate, before: beforeDate } = parseRequiredDateRange(options);
+
+  console.log("\nImmich Auto-Album Tool\n");
+  console.log(`  Name template:  ${options.name}`);
+  console.log(`  Group by:       ${unit}`);
+  printCriteria(options);
+
+  const scope = await resolveScope(options);
+  const settings = options.settings && (await resolveAlbumSettings(options.settings));
+
+  const matched = await findMatchingAssets(options, afterDate, beforeDate, scope);
+  const groups = groupAssetsByPeriod([...matched.values()], unit);
+  if (groups.length === 0) {
+    return [];
+  }
+
+  const albums = groups.map((group) => ({
+    name: formatAlbumName(options.name, group.period, options.locations),
+    assetIds: new Set(group.assetIds),
+  }));
+  const seenNames = new Set<string>();
+  for (const { name } of albums) {
+    if (seenNames.has(name)) {
+      throw new OptionError(
+        `The --name template gives more than one period the name "${name}". Add more placeholders, such as {year}`,
+      );
+    }
+    seenNames.add(name);
+  }
+
+  console.log(`Albums by ${unit}:`);
+  for (const album of albums) {
+    console.log(`  - ${album.name}: ${formatAssetCount(album.assetIds.size)}`);
+  }
+  console.log();
+
+  const allAlbums = await getAllAlbums({});
+  const report: AlbumReportEntry[] = [];
+  for (const album of albums) {
+    console.log(`Album "${album.name}"...`);
+    const existing = checkExistingAlbum(allAlbums, album.name, options.sync);
+    const result =
+      existing.result ??
+      (await saveAlbum(album.name, album.assetIds, existing.album, options, settings));
+    report.push({ name: album.name, result });
+  }
+
+  printAlbumReport("Albums report", report);
+  return report.map(({ result }) => result);
+}
@@ -0,0 +1,432 @@
+import { resolvePersonIds, resolveTagIds } from "../api/lookup.ts";
+import { parseDate, type DateBoundary } from "../dates.ts";
+import { OptionError } from "../registry.ts";
+import {
+  printAlbumReport,
+  runAutoAlbum,
+  type AlbumExclusions,
+  type AlbumReportEntry,
+  type AutoAlbumResult,
+} from "./auto-album.ts";
+
+export interface AlbumRule {
+  name: string;
+  after: string;
+  before: string;
+  locations: string[];
+  people: string[];
+  tags: string[];
+  exclude: AlbumExclusions;
+  removeMissing: boolean;
+}
+
+interface AutoAlbumRulesOptions {
+  rulesPath: string;
+  timeZone?: string;
+  chunkSize: number;
+  retries: number;
+  dryRun: boolean;
+  verbose: boolean;
+}
+
+type RulesFormat = "json" | "yaml";
+type Path = (string | number)[];
+
+interface RuleError {
+  path: Path;
+  message: string;
+}
+
+const RULE_KEYS = [
+  "name",
+  "after",
+  "before",
+  "locations",
+  "people",
+  "tags",
+  "exclude",
+  "removeMissing",
+];
+const EXCLUDE_KEYS = ["locations", "people", "tags"];
+
+function formatPath(path: Path): string {
+  return path
+    .map((part, index) =>
+      typeof part === "number" ? `[${part}]` : index === 0 ? part : `.${part}`,
+    )
+    .join("");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Finds the line (1-based) where each rule entry starts, for JSON and block-style YAML. */
+function findEntryLines(text: string, format: RulesFormat, nested: boolean): number[] {
+  const entryLines: number[] = [];
+
+  if (format === "json") {
+    let depth = 0;
+    let line = 1;
+    let inString = false;
+    let escaped = false;
+    let lastString = "";
+    let stringStart = 0;
+    let arrayDepth = -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === "\n") line++;
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === "\\") escaped = true;
+        else if (char === '"') {
+          inString = false;
+          lastString = text.slice(stringStart + 1, i);
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        stringStart = i;
+      } else if (char === "[" || char === "{") {
+        const isRulesArray =
+          arrayDepth === -1 &&
+          char === "[" &&
+          (nested ? depth === 1 && lastString === "albums" : depth === 0);
+        if (isRulesArray) arrayDepth = depth + 1;
+        else if (char === "{" && depth === arrayDepth) entryLines.push(line);
+        depth++;
+      } else if (char === "]" || char === "}") {
+        depth--;
+        if (arrayDepth !== -1 && depth < arrayDepth) break;
+      }
+    }
+    return entryLines;
+  }
+
+  const lines = text.split("\n");
+  let start = 0;
+  if (nested) {
+    start = lines.findIndex((line) => /^albums\s*:/.test(line)) + 1;
+    if (start === 0) return entryLines;
+  }
+
+  let itemIndent: number | undefined;
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i]!;
+    const trimmed = line.trimStart();
+    if (trimmed === "" || trimmed.startsWith("#")) continue;
+
+    const indent = line.length - trimmed.length;
+    const isItem = /^-(\s|$)/.test(trimmed);
+    if (nested && indent === 0 && !isItem) break;
+    if (!isItem) continue;
+
+    itemIndent ??= indent;
+    if (indent === itemIndent) entryLines.push(i + 1);
+  }
+  return entryLines;
+}
+
+function findKeyLine(
+  lines: string[],
+  format: RulesFormat,
+  key: string,
+  from: number,
+  to: number,
+): number | undefined {
+  const pattern =
+    format === "json" ? new RegExp(`"${key}"\\s*:`) : new RegExp(`^\\s*(-\\s+)?${key}\\s*:`);
+  for (let line = from; line < to && line <= lines.length; line++) {
+    if (pattern.test(lines[line - 1]!)) return line;
+  }
+  return undefined;
+}
+
+/** Best-effort line number for a validation error path such as albums[2].exclude.people. */
+function locateLine(
+  text: string,
+  format: RulesFormat,
+  nested: boolean,
+  path: Path,
+): number | undefined {
+  const parts = nested ? path.slice(1) : path;
+  const index = parts[0];
+  if (typeof index !== "number") return 1;
+
+  const entryLines = findEntryLines(text, format, nested);
+  const entryLine = entryLines[index];
+  if (entryLine === undefined) return undefined;
+
+  const lines = text.split("\n");
+  const end = entryLines[index + 1] ?? lines.length + 1;
+  let line = entryLine;
+  for (const key of parts.slice(1)) {
+    if (typeof key !== "string") break;
+    line = findKeyLine(lines, format, key, line, end) ?? line;
+  }
+  return line;
+}
+
+function readStringList(value: unknown, path: Path, errors: RuleError[]): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string" || item === "")) {
+    errors.push({ path, message: "expected a list of non-empty strings" });
+    return [];
+  }
+  return value as string[];
+}
+
+/** Returns the date as written (it's parsed again, in the --tz time zone, when the rule runs). */
+function readDate(
+  value: unknown,
+  boundary: DateBoundary,
+  path: Path,
+  errors: RuleError[],
+): string {
+  if (value === undefined) {
+    errors.push({ path, message: "is required" });
+    return "";
+  }
+
+  let valid = typeof value === "string";
+  if (typeof value === "string") {
+    try {
+      parseDate(value, boundary);
+    } catch {
+      valid = false;
+    }
+  }
+  if (!valid) {
+    errors.push({
+      path,
+      message: `expected a date such as 2024-06-01 or last-month, got ${JSON.stringify(value)}`,
+    });
+    return "";
+  }
+  return value as string;
+}
+
+function readUnknownKeys(
+  value: Record<string, unknown>,
+  allowed: string[],
+  path: Path,
+  errors: RuleError[],
+): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      errors.push({
+        path: [...path, key],
+        message: `unknown field. Expected one of: ${allowed.join(", ")}`,
+      });
+    }
+  }
+}
+
+function readRule(value: unknown, path: Path, errors: RuleError[]): AlbumRule | undefined {
+  if (!isRecord(value)) {
+    errors.push({ path, message: "expected an object" });
+    return undefined;
+  }
+  readUnknownKeys(value, RULE_KEYS, path, errors);
+
+  let name = "";
+  if (typeof value.name !== "string" || value.name.trim() === "") {
+    errors.push({ path: [...path, "name"], message: "is required and must be a non-empty string" });
+  } else {
+    name = value.name;
+  }
+
+  const after = readDate(value.after, "start", [...path, "after"], errors);
+  const before = readDate(value.before, "end", [...path, "before"], errors);
+  if (after && before && parseDate(after, "start") > parseDate(before, "end")) {
+    errors.push({ path: [...path, "before"], message: `is earlier than after (${after})` });
+  }
+
+  const exclude: AlbumExclusions = { locations: [], people: [], tags: [] };
+  if (value.exclude !== undefined) {
+    const excludePath = [...path, "exclude"];
+    if (!isRecord(value.exclude)) {
+      errors.push({ path: excludePath, message: "expected an object" });
+    } else {
+      readUnknownKeys(value.exclude, EXCLUDE_KEYS, excludePath, errors);
+      exclude.locations = readStringList(
+        value.exclude.locations,
+        [...excludePath, "locations"],
+        errors,
+      );
+      exclude.people = readStringList(value.exclude.people, [...excludePath, "people"], errors);
+      exclude.tags = readStringList(value.exclude.tags, [...excludePath, "tags"], errors);
+    }
+  }
+
+  if (value.removeMissing !== undefined && typeof value.removeMissing !== "boolean") {
+    errors.push({ path: [...path, "removeMissing"], message: "expected true or false" });
+  }
+
+  const locations = readStringList(value.locations, [...path, "locations"], errors);
+  const people = readStringList(value.people, [...path, "people"], errors);
+  const tags = readStringList(value.tags, [...path, "tags"], errors);
+  // Rules are always synced, so a rule without filters would add every asset
+  // in its date range.
+  if (locations.length === 0 && people.length === 0 && tags.length === 0) {
+    errors.push({ path, message: "needs at least one of locations, people or tags" });
+  }
+
+  return {
+    name,
+    after,
+    before,
+    locations,
+    people,
+    tags,
+    exclude,
+    removeMissing: value.removeMissing === true,
+  };
+}
+
+/**
+ * Parses and validates a rules file. Every problem is collected and reported
+ * together, with line numbers, before any rule is run.
+ */
+export function parseAlbumRules(text: string, source: string): AlbumRule[] {
+  const format: RulesFormat = source.toLowerCase().endsWith(".json") ? "json" : "yaml";
+
+  let data: unknown;
+  try {
+    data = format === "json" ? JSON.parse(text) : Bun.YAML.parse(text);
+  } catch (err) {
+    throw new OptionError(
+      `Invalid rules file ${source}: ${err instanceof Error ? err.message : "Unknown error"}`,
+    );
+  }
+
+  const root = isRecord(data) ? data : undefined;
+  const nested = root !== undefined;
+  const entries = root ? root.albums : data;
+  if (!Array.isArray(entries)) {
+    throw new OptionError(
+      `Invalid rules file ${source}: expected a list of albums or an "albums" list`,
+    );
+  }
+
+  const errors: RuleError[] = [];
+  if (root) readUnknownKeys(root, ["albums"], [], errors);
+
+  const rules: AlbumRule[] = [];
+  const seenNames = new Map<string, number>();
+  entries.forEach((entry, index) => {
+    const path: Path = nested ? ["albums", index] : [index];
+    const rule = readRule(entry, path, errors);
+    if (!rule) return;
+
+    const previous = seenNames.get(rule.name);
+    if (rule.name && previous !== undefined) {
+      errors.push({
+        path: [...path, "name"],
+        message: `duplicate album name "${rule.name}" (also used by entry ${previous + 1})`,
+      });
+    }
+    seenNames.set(rule.name, index);
+    rules.push(rule);
+  });
+
+  if (errors.length > 0) {
+    const details = errors.map((error) => {
+      const line = locateLine(text, format, nested, error.path);
+      const location = line === undefined ? source : `${source}:${line}`;
+      return `  ${location}: ${formatPath(error.path) || "(root)"} ${error.message}`;
+    });
+    throw new OptionError(`Invalid rules file ${source}:\n${details.join("\n")}`);
+  }
+
+  return rules;
+}
+
+export interface NameLookup {
+  people: (refs: string[]) => Promise<string[]>;
+  tags: (refs: string[]) => Promise<string[]>;
+}
+
+/**
+ * Looks up every person and tag the rules name, including exclusions, so a
+ * typo is reported before any album is created or synced.
+ */
+export async function checkRuleNames(
+  rules: AlbumRule[],
+  source: string,
+  lookup: NameLookup = { people: resolvePersonIds, tags: resolveTagIds },
+): Promise<void> {
+  const usedBy = (pick: (rule: AlbumRule) => string[]) => {
+    const names = new Map<string, string[]>();
+    for (const rule of rules) {
+      for (const name of new Set(pick(rule))) {
+        names.set(name, [...(names.get(name) ?? []), rule.name]);
+      }
+    }
+    return names;
+  };
+  const kinds = [
+    [lookup.people, usedBy((rule) => [...rule.people, ...rule.exclude.people])],
+    [lookup.tags, usedBy((rule) => [...rule.tags, ...rule.exclude.tags])],
+  ] as const;
+
+  const errors: string[] = [];
+  for (const [resolve, names] of kinds) {
+    for (const [name, ruleNames] of names) {
+      try {
+        await resolve([name]);
+      } catch (err) {
+        if (!(err instanceof OptionError)) throw err;
+        errors.push(`  ${err.message} (used by ${ruleNames.join(", ")})`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new OptionError(`Invalid rules file ${source}:\n${errors.join("\n")}`);
+  }
+}
+
+export async function autoAlbumRules(options: AutoAlbumRulesOptions): Promise<number> {
+  const file = Bun.file(options.rulesPath);
+  if (!(await file.exists())) {
+    throw new OptionError(`Rules file not found: ${options.rulesPath}`);
+  }
+  const rules = parseAlbumRules(await file.text(), options.rulesPath);
+
+  console.log(`\nLoaded ${rules.length} album rules from ${options.rulesPath}`);
+  if (rules.length === 0) {
+    console.log();
+    return 0;
+  }
+
+  await checkRuleNames(rules, options.rulesPath);
+
+  const report: AlbumReportEntry[] = [];
+  for (const rule of rules) {
+    let result: AutoAlbumResult;
+    try {
+      result = await runAutoAlbum({
+        ...rule,
+        timeZone: options.timeZone,
+        chunkSize: options.chunkSize,
+        retries: options.retries,
+        sync: true,
+        dryRun: options.dryRun,
+        verbose: options.verbose,
+      });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : "Unknown error";
+      console.error(`\nError: ${error}\n`);
+      result = { status: "failed", matched: 0, added: 0, removed: 0, error };
+    }
+    report.push({ name: rule.name, result });
+  }
+
+  printAlbumReport("Rules report", report);
+
+  return report.some(({ result }) => result.status === "failed") ? 1 : 0;
+}
@@ -0,0 +1,260 @@
+import {
+  addUsersToAlbum,
+  createSharedLink,
+  getAlbumInfo,
+  getAllSharedLinks,
+  searchUsers,
+  updateAlbumInfo,
+  updateAlbumUser,
+  AlbumUserRole,
+  AssetOrder,
+  SharedLinkType,
+  type AlbumResponseDto,
+  type AssetResponseDto,
+  type UpdateAlbumDto,
+} from "@immich/sdk";
+import { OptionError } from "../registry.ts";
+
+export const COVER_CHOICES = ["first", "last", "random-favorite"] as const;
+export const ALBUM_ORDERS = ["asc", "desc"] as const;
+export const ALBUM_ROLES = ["viewer", "editor"] as const;
+
+export type CoverChoice = (typeof COVER_CHOICES)[number];
+export type AlbumOrder = (typeof ALBUM_ORDERS)[number];
+export type AlbumRole = (typeof ALBUM_ROLES)[number];
+
+export interface SharedLinkSettings {
+  expiresAt?: string;
+  password?: string;
+}
+
+/** Album details applied after the album is created or synced. */
+export interface AlbumSettings {
+  description?: string;
+  /** An asset ID or one of COVER_CHOICES. */
+  cover?: string;
+  order?: AlbumOrder;
+  shareWith: string[];
+  role: AlbumRole;
+  sharedLink?: SharedLinkSettings;
+  /** Server URL used to print shared links. */
+  serverUrl: string;
+}
+
+export interface ResolvedAlbumSettings extends AlbumSettings {
+  /** User IDs for `shareWith`, in the same order. */
+  shareUserIds: string[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function hasAlbumSettings(settings: AlbumSettings): boolean {
+  return (
+    settings.description !== undefined ||
+    settings.cover !== undefined ||
+    settings.order !== undefined ||
+    settings.shareWith.length > 0 ||
+    settings.sharedLink !== undefined
+  );
+}
+
+export function validateCover(cover: string): void {
+  if (!COVER_CHOICES.some((choice) => choice === cover) && !UUID_PATTERN.test(cover)) {
+    throw new OptionError(
+      `Invalid value for --cover: "${cover}". Expected an asset ID or one of: ${COVER_CHOICES.join(", ")}`,
+    );
+  }
+}
+
+/** Looks up the users to share with by email before any album is touched. */
+export async function resolveAlbumSettings(
+  settings: AlbumSettings,
+): Promise<ResolvedAlbumSettings> {
+  if (settings.shareWith.length === 0) {
+    return { ...settings, shareUserIds: [] };
+  }
+
+  const users = await searchUsers();
+  const shareUserIds = settings.shareWith.map((email) => {
+    const user = users.find((item) => item.email.toLowerCase() === email.toLowerCase());
+    if (!user) {
+      throw new OptionError(`User not found: "${email}"`);
+    }
+    return user.id;
+  });
+
+  return { ...settings, shareUserIds };
+}
+
+/**
+ * Picks the cover asset. "first" and "last" go by capture time; "random-favorite"
+ * returns undefined when the album has no favorites.
+ */
+export function chooseCoverAsset(
+  assets: Pick<AssetResponseDto, "id" | "isFavorite" | "localDateTime">[],
+  cover: string,
+  random: () => number = Math.random,
+): string | undefined {
+  const sorted = [...assets].sort((a, b) => a.localDateTime.localeCompare(b.localDateTime));
+  switch (cover) {
+    case "first":
+      return sorted[0]?.id;
+    case "last":
+      return sorted[sorted.length - 1]?.id;
+    case "random-favorite": {
+      const favorites = sorted.filter((asset) => asset.isFavorite);
+      return favorites[Math.floor(random() * favorites.length)]?.id;
+    }
+    default:
+      return assets.some((asset) => asset.id === cover) ? cover : undefined;
+  }
+}
+
+function describeSettings(settings: ResolvedAlbumSettings): string[] {
+  const lines: string[] = [];
+  if (settings.description !== undefined) lines.push(`Description: ${settings.description}`);
+  if (settings.cover !== undefined) lines.push(`Cover: ${settings.cover}`);
+  if (settings.order !== undefined) lines.push(`Order: ${settings.order}`);
+  for (const email of settings.shareWith) lines.push(`Share with: ${email} (${settings.role})`);
+  if (settings.sharedLink) {
+    const details = [
+      settings.sharedLink.expiresAt && `expires ${settings.sharedLink.expiresAt}`,
+      settings.sharedLink.password && "password protected",
+    ].filter(Boolean);
+    lines.push(`Shared link${details.length > 0 ? ` (${details.join(", ")})` : ""}`);
+  }
+  return lines;
+}
+
+function formatSharedLink(serverUrl: string, link: { key: string; slug?: string | null }): string {
+  const base = serverUrl.replace(/\/+$/, "");
+  return link.slug ? `${base}/s/${link.slug}` : `${base}/share/${link.key}`;
+}
+
+async function applyAlbumDetails(
+  album: AlbumResponseDto,
+  settings: ResolvedAlbumSettings,
+): Promise<void> {
+  const update: UpdateAlbumDto = {};
+  if (settings.description !== undefined && settings.description !== album.description) {
+    update.description = settings.description;
+  }
+  if (settings.order !== undefined && settings.order !== album.order) {
+    update.order = settings.order === "asc" ? AssetOrder.Asc : AssetOrder.Desc;
+  }
+  if (settings.cover !== undefined) {
+    const coverId = chooseCoverAsset(album.assets, settings.cover);
+    if (!coverId) {
+      console.warn(`  Warning: No asset in the album matches --cover ${settings.cover}`);
+    } else if (coverId !== album.albumThumbnailAssetId) {
+      update.albumThumbnailAssetId = coverId;
+    }
+  }
+
+  if (Object.keys(update).length === 0) {
+    return;
+  }
+  await updateAlbumInfo({ id: album.id, updateAlbumDto: update });
+  console.log(`  Updated ${Object.keys(update).join(", ")}`);
+}
+
+/** Shares with users who don't have access yet and updates the role of those who do. */
+async function applyAlbumUsers(
+  album: AlbumResponseDto,
+  settings: ResolvedAlbumSettings,
+): Promise<void> {
+  const role = settings.role === "editor" ? AlbumUserRole.Editor : AlbumUserRole.Viewer;
+  const toAdd: string[] = [];
+
+  for (const [index, userId] of settings.shareUserIds.entries()) {
+    const email = settings.shareWith[index];
+    if (userId === album.ownerId) {
+      console.warn(`  Warning: ${email} owns the album, not sharing with them`);
+      continue;
+    }
+
+    const current = album.albumUsers.find((albumUser) => albumUser.user.id === userId);
+    if (!current) {
+      toAdd.push(userId);
+    } else if (current.role !== role) {
+      await updateAlbumUser({ id: album.id, userId, updateAlbumUserDto: { role } });
+      console.log(`  Changed ${email} to ${settings.role}`);
+    }
+  }
+
+  if (toAdd.length > 0) {
+    await addUsersToAlbum({
+      id: album.id,
+      addUsersDto: { albumUsers: toAdd.map((userId) => ({ userId, role })) },
+    });
+    console.log(
+      `  Shared with ${toAdd.length} user${toAdd.length !== 1 ? "s" : ""} (${settings.role})`,
+    );
+  }
+}
+
+/**
+ * Creates a shared link unless the album already has one. Expiry and password
+ * only apply to new links.
+ */
+async function applySharedLink(
+  album: AlbumResponseDto,
+  settings: ResolvedAlbumSettings,
+): Promise<void> {
+  if (!settings.sharedLink) {
+    return;
+  }
+
+  const existing = await getAllSharedLinks({ albumId: album.id });
+  if (existing.length > 0) {
+    console.log(`  Shared link: ${formatSharedLink(settings.serverUrl, existing[0]!)} (existing)`);
+    return;
+  }
+
+  const link = await createSharedLink({
+    sharedLinkCreateDto: {
+      type: SharedLinkType.Album,
+      albumId: album.id,
+      expiresAt: settings.sharedLink.expiresAt,
+      password: settings.sharedLink.password,
+    },
+  });
+  console.log(`  Shared link: ${formatSharedLink(settings.serverUrl, link)}`);
+}
+
+/**
+ * Applies description, cover, order, sharing and the shared link to an album
+ * that was just created or synced. Returns an error message on failure.
+ */
+export async function applyAlbumSettings(
+  albumId: string | undefined,
+  settings: ResolvedAlbumSettings,
+  dryRun: boolean,
+): Promise<string | undefined> {
+  if (!hasAlbumSettings(settings)) {
+    return undefined;
+  }
+
+  if (dryRun || !albumId) {
+    console.log("[dry-run] Would apply album settings");
+    for (const line of describeSettings(settings)) {
+      console.log(`  ${line}`);
+    }
+    console.log();
+    return undefined;
+  }
+
+  console.log("Applying album settings...");
+  try {
+    const album = await getAlbumInfo({ id: albumId, withoutAssets: settings.cover === undefined });
+    await applyAlbumDetails(album, settings);
+    await applyAlbumUsers(album, settings);
+    await applySharedLink(album, settings);
+    console.log();
+    return undefined;
+  } catch (err) {
+    const error = err instanceof Error ? err.message : "Unknown error";
+    console.error(`  Failed to apply album settings: ${error}\n`);
+    return `settings failed: ${error}`;
+  }
+}
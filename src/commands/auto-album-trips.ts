@@ -0,0 +1,272 @@
+import { getAllAlbums } from "@immich/sdk";
+import { parseDateRange } from "../dates.ts";
+import { distanceKm, parseCoordinates, type Coordinates } from "../geo.ts";
+import { OptionError } from "../registry.ts";
+import {
+  createNewAlbum,
+  fetchAssetsWithCoordinates,
+  formatAssetCount,
+  type GeoAsset,
+} from "./auto-album.ts";
+import { getLocationIndex, matchLocationValues, suggestLocations } from "./locations.ts";
+
+export interface TripDetectionOptions {
+  home: Coordinates;
+  minDistanceKm: number;
+  gapMs: number;
+  minAssets: number;
+}
+
+export interface TripProposal {
+  name: string;
+  startDate: string;
+  endDate: string;
+  place: string;
+  assetIds: string[];
+}
+
+interface DetectTripsOptions {
+  home: string;
+  after?: string;
+  before?: string;
+  timeZone?: string;
+  minDistanceKm: number;
+  gapHours: number;
+  minAssets: number;
+  trips: number[];
+  chunkSize: number;
+  retries: number;
+  dryRun: boolean;
+  verbose: boolean;
+}
+
+interface PlacedAsset extends GeoAsset {
+  time: number;
+  point: Coordinates;
+}
+
+function mostCommon(values: (string | null | undefined)[]): { value?: string; share: number } {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  let best: string | undefined;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return { value: best, share: values.length > 0 ? bestCount / values.length : 0 };
+}
+
+/**
+ * Names a trip after its dominant city, or its dominant country when no single
+ * city covers at least half of the assets, followed by its date range.
+ */
+export function describeTrip(assets: GeoAsset[]): Omit<TripProposal, "assetIds"> {
+  const city = mostCommon(assets.map((asset) => asset.city));
+  const country = mostCommon(assets.map((asset) => asset.country));
+  const place =
+    city.value && city.share >= 0.5 ? city.value : (country.value ?? city.value ?? "Trip");
+
+  const dates = assets
+    .map((asset) => asset.localDate)
+    .filter((date): date is string => Boolean(date))
+    .sort();
+  const startDate = dates[0] ?? "";
+  const endDate = dates[dates.length - 1] ?? "";
+  const range = startDate === endDate ? startDate : `${startDate} to ${endDate}`;
+
+  return { name: range ? `${place} (${range})` : place, place, startDate, endDate };
+}
+
+/**
+ * Clusters assets taken at least `minDistanceKm` from home into trips. A trip
+ * ends at the first photo taken near home or when no away photo follows within
+ * `gapMs`. Assets without GPS or capture time are ignored and don't split trips.
+ */
+export function detectTrips(assets: GeoAsset[], options: TripDetectionOptions): TripProposal[] {
+  const placed: PlacedAsset[] = [];
+  for (const asset of assets) {
+    if (typeof asset.latitude !== "number" || typeof asset.longitude !== "number") continue;
+    const time = asset.takenAt ? new Date(asset.takenAt).getTime() : NaN;
+    if (isNaN(time)) continue;
+    placed.push({
+      ...asset,
+      time,
+      point: { latitude: asset.latitude, longitude: asset.longitude },
+    });
+  }
+  placed.sort((a, b) => a.time - b.time);
+
+  const clusters: PlacedAsset[][] = [];
+  let current: PlacedAsset[] = [];
+  for (const asset of placed) {
+    if (distanceKm(options.home, asset.point) < options.minDistanceKm) {
+      if (current.length > 0) clusters.push(current);
+      current = [];
+      continue;
+    }
+
+    const previous = current[current.length - 1];
+    if (previous && asset.time - previous.time > options.gapMs) {
+      clusters.push(current);
+      current = [];
+    }
+    current.push(asset);
+  }
+  if (current.length > 0) clusters.push(current);
+
+  return clusters
+    .filter((cluster) => cluster.length >= options.minAssets)
+    .map((cluster) => ({
+      ...describeTrip(cluster),
+      assetIds: cluster.map((asset) => asset.id),
+    }));
+}
+
+/** Resolves --home from "lat,lon" or from the average position of assets taken in that city. */
+/** Averages the GPS positions of `points`, ignoring those without one. */
+export function centroid(
+  points: Array<{ latitude?: number | null; longitude?: number | null }>,
+): Coordinates | undefined {
+  let latitude = 0;
+  let longitude = 0;
+  let count = 0;
+  for (const point of points) {
+    if (typeof point.latitude !== "number" || typeof point.longitude !== "number") continue;
+    latitude += point.latitude;
+    longitude += point.longitude;
+    count++;
+  }
+  return count === 0 ? undefined : { latitude: latitude / count, longitude: longitude / count };
+}
+
+/**
+ * Resolves --home to a position: `lat,lon` as given, or a city name matched
+ * against the library's cities (ignoring case and accents) and placed at the
+ * average position of all photos taken there.
+ */
+async function resolveHome(home: string): Promise<Coordinates> {
+  if (/^\s*-?[\d.]+\s*,\s*-?[\d.]+\s*$/.test(home)) {
+    return parseCoordinates(home, "home");
+  }
+
+  const index = await getLocationIndex();
+  const cities = matchLocationValues(home, index.city);
+  if (cities.length === 0) {
+    const hints = suggestLocations(home, index.city);
+    const hint = hints.length > 0 ? ` Did you mean: ${hints.join(", ")}?` : "";
+    throw new OptionError(
+      `Could not locate --home "${home}": no city with that name in your library.${hint} Use lat,lon instead.`,
+    );
+  }
+
+  const assets: GeoAsset[] = [];
+  for (const city of cities) {
+    assets.push(...(await fetchAssetsWithCoordinates(undefined, undefined, undefined, city)));
+  }
+  const position = centroid(assets);
+  if (!position) {
+    throw new OptionError(
+      `Could not locate --home "${home}": no assets with GPS data in that city. Use lat,lon instead.`,
+    );
+  }
+  return position;
+}
+
+export async function detectTripAlbums(options: DetectTripsOptions): Promise<number> {
+  const { after: afterDate, before: beforeDate } = parseDateRange(options.after, options.before, {
+    timeZone: options.timeZone,
+  });
+
+  console.log("\nImmich Auto-Album Tool\n");
+  console.log(`  Mode:           detect trips`);
+  console.log(`  Home:           ${options.home}`);
+  console.log(`  Away from:      ${options.minDistanceKm} km`);
+  console.log(`  Trip gap:       ${options.gapHours} h`);
+  if (options.after) console.log(`  After:          ${options.after}`);
+  if (options.before) console.log(`  Before:         ${options.before}`);
+  console.log(`  Dry run:        ${options.dryRun ? "Yes" : "No"}`);
+  console.log();
+
+  const home = await resolveHome(options.home);
+  if (options.verbose) {
+    console.log(`  Home position: ${home.latitude.toFixed(4)},${home.longitude.toFixed(4)}\n`);
+  }
+
+  console.log("Scanning timeline...");
+  const assets = await fetchAssetsWithCoordinates(afterDate, beforeDate);
+  console.log(`  Found ${formatAssetCount(assets.length)}\n`);
+
+  const proposals = detectTrips(assets, {
+    home,
+    minDistanceKm: options.minDistanceKm,
+    gapMs: options.gapHours * 60 * 60 * 1000,
+    minAssets: options.minAssets,
+  });
+
+  if (proposals.length === 0) {
+    console.log("No trips found.\n");
+    return 0;
+  }
+
+  for (const number of options.trips) {
+    if (number < 1 || number > proposals.length) {
+      throw new OptionError(
+        `Invalid value for --trip: ${number}. Expected a proposal number from 1 to ${proposals.length}`,
+      );
+    }
+  }
+
+  console.log("Proposed albums:");
+  proposals.forEach((proposal, index) => {
+    console.log(`  ${index + 1}. ${proposal.name}: ${formatAssetCount(proposal.assetIds.length)}`);
+  });
+  console.log();
+
+  const selected =
+    options.trips.length > 0
+      ? proposals.filter((_, index) => options.trips.includes(index + 1))
+      : proposals;
+
+  if (options.dryRun) {
+    console.log(`[dry-run] Would create ${selected.length} of ${proposals.length} albums.`);
+    if (options.trips.length === 0) {
+      console.log("  Use --trip <n> to create only some of them.");
+    }
+    console.log();
+    return 0;
+  }
+
+  const existingNames = new Set((await getAllAlbums({})).map((album) => album.albumName));
+  let created = 0;
+  let failed = 0;
+
+  for (const proposal of selected) {
+    if (existingNames.has(proposal.name)) {
+      console.warn(`  Warning: Album "${proposal.name}" already exists, skipping.`);
+      continue;
+    }
+
+    const result = await createNewAlbum(proposal.name, new Set(proposal.assetIds), {
+      dryRun: false,
+      chunkSize: options.chunkSize,
+      retries: options.retries,
+    });
+    if (result.status === "created") {
+      created++;
+    } else {
+      failed++;
+    }
+  }
+
+  console.log("\nSummary:");
+  console.log(`  Albums created:  ${created}`);
+  console.log(`  Failed:          ${failed}\n`);
+
+  return failed === 0 ? 0 : 1;
+}
@@ -1,11 +1,40 @@
 import {
   searchAssets,
+  searchAssetStatistics,
+  searchSmart,
   createAlbum,
   getAllAlbums,
+  getAlbumInfo,
+  addAssetsToAlbum,
+  removeAssetFromAlbum,
   AssetVisibility,
+  Error as BulkIdError,
   type AlbumResponseDto,
+  type AssetResponseDto,
+  type BulkIdResponseDto,
+  type MetadataSearchDto,
 } from "@immich/sdk";
-import type { CommandOption } from "../registry.ts";
+import { resolvePersonIds, resolveTagIds } from "../api/lookup.ts";
+import { withRetry } from "../api/retry.ts";
+import {
+  distanceKm,
+  isInBoundingBox,
+  type BoundingBox,
+  type Coordinates,
+} from "../geo.ts";
+import { parseDateRange } from "../dates.ts";
+import { OptionError, type CommandOption } from "../registry.ts";
+import { runGroupedAutoAlbum, type GroupPeriod } from "./auto-album-periods.ts";
+import {
+  applyAlbumSettings,
+  resolveAlbumSettings,
+  type AlbumSettings,
+  type ResolvedAlbumSettings,
+} from "./auto-album-settings.ts";
+import { getLocationIndex, matchLocationValues, suggestLocations } from "./locations.ts";
+
+/** Keeps each add/remove request well below common proxy body limits. */
+export const DEFAULT_CHUNK_SIZE = 1000;
 
 export const autoAlbumCommandMeta = {
   name: "auto-album",
@@ -14,32 +43,241 @@ export const autoAlbumCommandMeta = {
     {
       name: "name",
       type: "string",
-      required: true,
-      description: "Name for the album to create",
+      description: "Name for the album to create (required unless --rules, --ics or --detect-trips)",
       placeholder: "name",
     },
     {
       name: "after",
       type: "string",
-      required: true,
-      description: "Start date for asset filter (ISO format)",
+      description: "First day of the asset filter (see DATES; required unless --rules, --ics or --detect-trips)",
       placeholder: "date",
     },
     {
       name: "before",
       type: "string",
-      required: true,
-      description: "End date for asset filter (ISO format)",
+      description: "Last day of the asset filter, inclusive (see DATES; required unless --rules, --ics or --detect-trips)",
       placeholder: "date",
     },
     {
       name: "location",
       type: "string",
-      required: true,
       multiple: true,
       description: "Location to filter by (repeatable)",
       placeholder: "loc",
     },
+    {
+      name: "near",
+      type: "string",
+      description: "Match assets whose GPS position is within --radius of this point",
+      placeholder: "lat,lon",
+    },
+    {
+      name: "radius",
+      type: "string",
+      description: "Radius in kilometres for --near",
+      placeholder: "km",
+    },
+    {
+      name: "bbox",
+      type: "string",
+      description: "Match assets whose GPS position is inside this box",
+      placeholder: "minLat,minLon,maxLat,maxLon",
+    },
+    {
+      name: "query",
+      type: "string",
+      description: "Only match assets found by this smart search query",
+      placeholder: "text",
+    },
+    {
+      name: "query-limit",
+      type: "string",
+      description: "Max smart search results to consider, most relevant first (default: 250)",
+      placeholder: "count",
+    },
+    {
+      name: "person",
+      type: "string",
+      multiple: true,
+      description: "Only match assets with this person, by ID or name (repeatable)",
+      placeholder: "name",
+    },
+    {
+      name: "person-match",
+      type: "string",
+      description: "Whether assets need all --person values or any of them (default: all)",
+      placeholder: "all|any",
+    },
+    {
+      name: "tag",
+      type: "string",
+      multiple: true,
+      description: "Only match assets with this tag, by ID, name or value (repeatable)",
+      placeholder: "tag",
+    },
+    {
+      name: "camera-make",
+      type: "string",
+      description: "Only match assets from this camera make",
+      placeholder: "make",
+    },
+    {
+      name: "camera-model",
+      type: "string",
+      description: "Only match assets from this camera model",
+      placeholder: "model",
+    },
+    {
+      name: "favorite-only",
+      type: "boolean",
+      description: "Only match favorite assets",
+    },
+    {
+      name: "exclude-location",
+      type: "string",
+      multiple: true,
+      description: "Remove assets from this location from the result (repeatable)",
+      placeholder: "loc",
+    },
+    {
+      name: "description",
+      type: "string",
+      description: "Set the album description",
+      placeholder: "text",
+    },
+    {
+      name: "cover",
+      type: "string",
+      description: "Album cover: an asset ID, first, last or random-favorite",
+      placeholder: "cover",
+    },
+    {
+      name: "order",
+      type: "string",
+      description: "Album sort order: asc or desc",
+      placeholder: "order",
+    },
+    {
+      name: "share-with",
+      type: "string",
+      multiple: true,
+      description: "Share the album with this user, by email (repeatable)",
+      placeholder: "email",
+    },
+    {
+      name: "role",
+      type: "string",
+      description: "Role for --share-with users: viewer or editor (default: viewer)",
+      placeholder: "role",
+    },
+    {
+      name: "shared-link",
+      type: "boolean",
+      description: "Create a shared link for the album if it doesn't have one",
+    },
+    {
+      name: "link-expires",
+      type: "string",
+      description: "Expiry date for a new --shared-link (see DATES)",
+      placeholder: "date",
+    },
+    {
+      name: "link-password",
+      type: "string",
+      description: "Password for a new --shared-link",
+      placeholder: "password",
+    },
+    {
+      name: "group-by",
+      type: "string",
+      description:
+        "Create one album per day, week, month or year; --name becomes a template such as \"{year}-{month} {location}\"",
+      placeholder: "period",
+    },
+    {
+      name: "rules",
+      type: "string",
+      description: "Create or sync every album in a YAML or JSON rules file",
+      placeholder: "file",
+    },
+    {
+      name: "ics",
+      type: "string",
+      description: "Create or sync one album per event in an iCalendar (.ics) file",
+      placeholder: "file",
+    },
+    {
+      name: "ics-category",
+      type: "string",
+      multiple: true,
+      description: "With --ics, only use events in this category (repeatable)",
+      placeholder: "category",
+    },
+    {
+      name: "ics-summary",
+      type: "string",
+      description: "With --ics, only use events whose summary matches this regex",
+      placeholder: "regex",
+    },
+    {
+      name: "detect-trips",
+      type: "boolean",
+      description: "Propose one album per trip away from --home instead of using --name",
+    },
+    {
+      name: "home",
+      type: "string",
+      description: "Home for --detect-trips, as lat,lon or a city name",
+      placeholder: "home",
+    },
+    {
+      name: "min-distance",
+      type: "string",
+      description: "Distance from home that counts as away, for --detect-trips (default: 50)",
+      placeholder: "km",
+    },
+    {
+      name: "trip-gap",
+      type: "string",
+      description: "Hours without away photos that end a trip (default: 48)",
+      placeholder: "hours",
+    },
+    {
+      name: "trip-min",
+      type: "string",
+      description: "Min assets per proposed trip (default: 10)",
+      placeholder: "count",
+    },
+    {
+      name: "trip",
+      type: "string",
+      multiple: true,
+      description: "Only create this proposal number (repeatable; default: all)",
+      placeholder: "n",
+    },
+    {
+      name: "sync",
+      type: "boolean",
+      description: "Add missing matches to the album if it already exists",
+    },
+    {
+      name: "remove-missing",
+      type: "boolean",
+      description: "With --sync, also remove album assets that no longer match",
+    },
+    {
+      name: "chunk-size",
+      type: "string",
+      description: `Assets added or removed per request (default: ${DEFAULT_CHUNK_SIZE})`,
+      placeholder: "count",
+    },
+    {
+      name: "retries",
+      type: "string",
+      description:
+        "Retries per chunk for server errors and dropped connections, with exponential backoff (default: 3)",
+      placeholder: "count",
+    },
     {
       name: "dry-run",
       type: "boolean",
@@ -53,21 +291,113 @@ export const autoAlbumCommandMeta = {
   ] as CommandOption[],
   examples: [
     'immich-ts auto-album --name "Rome Vacation" --after 2024-06-01 --before 2024-06-15 --location Rome --location "Vatican City"',
+    'immich-ts auto-album --name "Rome Vacation" --after 2024-06-01 --before 2024-06-15 --location Rome --sync --dry-run',
+    'immich-ts auto-album --name "Kids 2024" --after 2024-01-01 --before 2024-12-31 --person Anna --person Ben --person-match any --favorite-only',
+    'immich-ts auto-album --name "Rome: Food" --after 2024-06-01 --before 2024-06-15 --location Rome --query "food on a plate"',
+    'immich-ts auto-album --name "Dolomites" --after 2024-07-01 --before 2024-07-10 --near 46.41,11.84 --radius 25',
+    'immich-ts auto-album --name "{year}-{month} {location}" --after 2024-01-01 --before 2024-12-31 --location Rome --group-by month',
+    'immich-ts auto-album --name "Rome Vacation" --after 2024-06-01 --before 2024-06-15 --location Rome --sync --cover random-favorite --share-with anna@example.com --shared-link',
+    "immich-ts auto-album --rules albums.yaml --dry-run",
+    'immich-ts auto-album --ics family.ics --ics-category Holiday --after 2024-01-01 --dry-run',
+    "immich-ts auto-album --detect-trips --home Berlin --after 2024-01-01 --dry-run",
+    "immich-ts auto-album --detect-trips --home 52.52,13.40 --after 2024-01-01 --trip 2 --trip 5",
   ],
 };
 
-interface AutoAlbumOptions {
+export const PERSON_MATCH_MODES = ["all", "any"] as const;
+
+export type PersonMatch = (typeof PERSON_MATCH_MODES)[number];
+
+export interface AlbumExclusions {
+  locations: string[];
+  people: string[];
+  tags: string[];
+}
+
+export interface AutoAlbumOptions {
   name: string;
   after: string;
   before: string;
+  /** Time zone for plain and relative dates (default: local). */
+  timeZone?: string;
   locations: string[];
+  near?: Coordinates;
+  radiusKm?: number;
+  bbox?: BoundingBox;
+  /** Smart search query; matches are limited to its `queryLimit` most relevant results. */
+  query?: string;
+  queryLimit?: number;
+  people: string[];
+  /** Defaults to "all": assets must show every person. */
+  personMatch?: PersonMatch;
+  tags: string[];
+  cameraMake?: string;
+  cameraModel?: string;
+  favoriteOnly?: boolean;
+  exclude: AlbumExclusions;
+  /** Split the matches into one album per period, naming each from the `name` template. */
+  groupBy?: GroupPeriod;
+  /** Description, cover, order and sharing, applied on creation and sync. */
+  settings?: AlbumSettings;
+  /** Assets per add/remove request (default: DEFAULT_CHUNK_SIZE). */
+  chunkSize?: number;
+  /** Retries per chunk for transient errors (default: 3). */
+  retries?: number;
+  sync: boolean;
+  removeMissing: boolean;
   dryRun: boolean;
   verbose: boolean;
 }
 
-interface AssetData {
+export type AutoAlbumStatus = "created" | "updated" | "unchanged" | "dry-run" | "exists" | "failed";
+
+export interface AutoAlbumResult {
+  status: AutoAlbumStatus;
+  albumId?: string;
+  matched: number;
+  added: number;
+  removed: number;
+  error?: string;
+}
+
+export interface AlbumAssetDiff {
+  toAdd: string[];
+  toRemove: string[];
+  unchanged: number;
+  /** Album assets outside the criteria that are kept because removal wasn't requested. */
+  kept: number;
+}
+
+export interface AssetData {
   id: string;
   originalFileName: string;
+  /** Capture date (YYYY-MM-DD) in the asset's local time zone. */
+  localDate?: string;
+}
+
+export interface GeoAsset extends AssetData {
+  latitude?: number | null;
+  longitude?: number | null;
+  takenAt?: string;
+  city?: string | null;
+  country?: string | null;
+}
+
+export interface GeoFilter {
+  label: string;
+  contains: (point: Coordinates) => boolean;
+}
+
+type AssetSearchFilters = Omit<MetadataSearchDto, "page" | "size" | "visibility" | "withStacked">;
+
+/** Criteria every matched asset must meet besides the date range and location. */
+export interface AssetScope {
+  personIds: string[];
+  personMatch: PersonMatch;
+  tagIds: string[];
+  make?: string;
+  model?: string;
+  favoriteOnly: boolean;
 }
 
 type LocationField = "city" | "country" | "state";
@@ -76,72 +406,76 @@ interface LocationSearchParams {
   location: string;
   takenAfter?: string;
   takenBefore?: string;
+  scope?: AssetScope;
 }
 
 interface LocationSearchResult {
   assets: AssetData[];
   countsByField: Record<LocationField, number>;
+  /** Library values the term was matched to, when they're spelled differently. */
+  matchedValues: string[];
 }
 
 const LOCATION_FIELDS: LocationField[] = ["city", "country", "state"];
 
-function parseDate(dateStr: string): string {
-  const date = new Date(dateStr);
-  if (isNaN(date.getTime())) {
-    throw new Error(`Invalid date format: ${dateStr}. Use ISO format (YYYY-MM-DD)`);
+function toAssetData(asset: AssetResponseDto): AssetData {
+  return {
+    id: asset.id,
+    originalFileName: asset.originalFileName,
+    localDate: asset.localDateTime.slice(0, 10),
+  };
+}
+
+/**
+ * Turns the scope into search filters. Each filter set is searched separately
+ * and the results are combined, which is how "any" person matching works.
+ */
+export function scopeFilters(scope?: AssetScope): AssetSearchFilters[] {
+  if (!scope) return [{}];
+
+  const shared: AssetSearchFilters = {
+    ...(scope.tagIds.length > 0 && { tagIds: scope.tagIds }),
+    ...(scope.make && { make: scope.make }),
+    ...(scope.model && { model: scope.model }),
+    ...(scope.favoriteOnly && { isFavorite: true }),
+  };
+  if (scope.personIds.length === 0) return [shared];
+  if (scope.personMatch === "any") {
+    return scope.personIds.map((personId) => ({ ...shared, personIds: [personId] }));
   }
-  return date.toISOString();
+  return [{ ...shared, personIds: scope.personIds }];
 }
 
-async function searchAssetsByField(
-  params: LocationSearchParams,
-  field: LocationField,
-): Promise<AssetData[]> {
-  const result: AssetData[] = [];
+export async function resolveScope(options: AutoAlbumOptions): Promise<AssetScope> {
+  return {
+    personIds: await resolvePersonIds(options.people),
+    personMatch: options.personMatch ?? "all",
+    tagIds: await resolveTagIds(options.tags),
+    make: options.cameraMake,
+    model: options.cameraModel,
+    favoriteOnly: options.favoriteOnly ?? false,
+  };
+}
+
+async function searchAllAssets(filters: AssetSearchFilters): Promise<AssetResponseDto[]> {
+  const result: AssetResponseDto[] = [];
   let page = 1;
   const size = 1000;
   let hasMore = true;
 
   while (hasMore) {
-    const metadataSearchDto: {
-      page: number;
-      size: number;
-      visibility: AssetVisibility;
-      takenAfter?: string;
-      takenBefore?: string;
-      withStacked: boolean;
-      city?: string;
-      country?: string;
-      state?: string;
-    } = {
-      page,
-      size,
-      visibility: AssetVisibility.Timeline,
-      takenAfter: params.takenAfter,
-      takenBefore: params.takenBefore,
-      withStacked: false,
-    };
-
-    if (field === "city") {
-      metadataSearchDto.city = params.location;
-    } else if (field === "country") {
-      metadataSearchDto.country = params.location;
-    } else {
-      metadataSearchDto.state = params.location;
-    }
-
     const response = await searchAssets({
-      metadataSearchDto,
+      metadataSearchDto: {
+        ...filters,
+        page,
+        size,
+        visibility: AssetVisibility.Timeline,
+        withStacked: false,
+      },
     });
 
     const assets = response.assets.items;
-
-    for (const asset of assets) {
-      result.push({
-        id: asset.id,
-        originalFileName: asset.originalFileName,
-      });
-    }
+    result.push(...assets);
 
     if (assets.length < size) {
       hasMore = false;
@@ -153,13 +487,216 @@ async function searchAssetsByField(
   return result;
 }
 
+async function searchInScope(
+  filters: AssetSearchFilters,
+  scope?: AssetScope,
+): Promise<AssetResponseDto[]> {
+  const variants = scopeFilters(scope);
+  if (variants.length === 1) {
+    return searchAllAssets({ ...filters, ...variants[0] });
+  }
+
+  const byId = new Map<string, AssetResponseDto>();
+  for (const variant of variants) {
+    for (const asset of await searchAllAssets({ ...filters, ...variant })) {
+      byId.set(asset.id, asset);
+    }
+  }
+  return [...byId.values()];
+}
+
+const DEFAULT_QUERY_LIMIT = 250;
+const SMART_SEARCH_PAGE_SIZE = 100;
+
+/**
+ * Runs a smart (CLIP) search and returns up to `limit` results, most relevant
+ * first. The API doesn't return similarity scores, so the limit is the only
+ * way to cut off weak matches.
+ */
+async function smartSearchAssets(
+  query: string,
+  limit: number,
+  filters: AssetSearchFilters,
+): Promise<AssetResponseDto[]> {
+  const result: AssetResponseDto[] = [];
+  const size = Math.min(limit, SMART_SEARCH_PAGE_SIZE);
+
+  for (let page = 1; result.length < limit; page++) {
+    const response = await searchSmart({
+      smartSearchDto: {
+        ...filters,
+        query,
+        page,
+        size,
+        visibility: AssetVisibility.Timeline,
+      },
+    });
+
+    result.push(...response.assets.items);
+    if (response.assets.items.length < size || response.assets.nextPage === null) {
+      break;
+    }
+  }
+
+  return result.slice(0, limit);
+}
+
+/** Smart search within the date range and scope. With "any" person matching, each person gets `limit` results. */
+async function smartSearchInScope(
+  query: string,
+  limit: number,
+  filters: AssetSearchFilters,
+  scope: AssetScope,
+): Promise<AssetResponseDto[]> {
+  const byId = new Map<string, AssetResponseDto>();
+  for (const variant of scopeFilters(scope)) {
+    for (const asset of await smartSearchAssets(query, limit, { ...filters, ...variant })) {
+      byId.set(asset.id, asset);
+    }
+  }
+  return [...byId.values()];
+}
+
+async function searchAssetsByField(
+  params: LocationSearchParams,
+  field: LocationField,
+): Promise<AssetData[]> {
+  const assets = await searchInScope(
+    {
+      takenAfter: params.takenAfter,
+      takenBefore: params.takenBefore,
+      [field]: params.location,
+    },
+    params.scope,
+  );
+
+  return assets.map(toAssetData);
+}
+
+export async function fetchAssetsWithCoordinates(
+  takenAfter?: string,
+  takenBefore?: string,
+  scope?: AssetScope,
+  city?: string,
+): Promise<GeoAsset[]> {
+  const assets = await searchInScope(
+    { takenAfter, takenBefore, withExif: true, ...(city !== undefined && { city }) },
+    scope,
+  );
+
+  return assets.map((asset) => ({
+    id: asset.id,
+    originalFileName: asset.originalFileName,
+    latitude: asset.exifInfo?.latitude,
+    longitude: asset.exifInfo?.longitude,
+    takenAt: asset.exifInfo?.dateTimeOriginal ?? asset.fileCreatedAt,
+    localDate: asset.localDateTime.slice(0, 10),
+    city: asset.exifInfo?.city,
+    country: asset.exifInfo?.country,
+  }));
+}
+
+function buildGeoFilters(options: AutoAlbumOptions): GeoFilter[] {
+  const filters: GeoFilter[] = [];
+  const { near, radiusKm, bbox } = options;
+
+  if (near && radiusKm !== undefined) {
+    filters.push({
+      label: `within ${radiusKm} km of ${near.latitude},${near.longitude}`,
+      contains: (point) => distanceKm(near, point) <= radiusKm,
+    });
+  }
+  if (bbox) {
+    filters.push({
+      label: `inside ${bbox.minLatitude},${bbox.minLongitude},${bbox.maxLatitude},${bbox.maxLongitude}`,
+      contains: (point) => isInBoundingBox(point, bbox),
+    });
+  }
+
+  return filters;
+}
+
+/** Splits assets into those inside the filter and those that have no GPS position. */
+export function filterByCoordinates(
+  assets: GeoAsset[],
+  filter: GeoFilter,
+): { matched: GeoAsset[]; notEvaluated: number } {
+  const matched: GeoAsset[] = [];
+  let notEvaluated = 0;
+
+  for (const asset of assets) {
+    if (typeof asset.latitude !== "number" || typeof asset.longitude !== "number") {
+      notEvaluated++;
+      continue;
+    }
+    if (filter.contains({ latitude: asset.latitude, longitude: asset.longitude })) {
+      matched.push(asset);
+    }
+  }
+
+  return { matched, notEvaluated };
+}
+
+/** Counts the assets in the date range that meet each scope criterion on its own. */
+async function countByCriterion(
+  options: AutoAlbumOptions,
+  scope: AssetScope,
+  takenAfter: string,
+  takenBefore: string,
+): Promise<Array<{ label: string; count: number }>> {
+  const criteria: Array<{ label: string; filters: AssetSearchFilters }> = [
+    ...scope.personIds.map((personId, index) => ({
+      label: `person ${options.people[index]}`,
+      filters: { personIds: [personId] },
+    })),
+    ...scope.tagIds.map((tagId, index) => ({
+      label: `tag ${options.tags[index]}`,
+      filters: { tagIds: [tagId] },
+    })),
+  ];
+  if (scope.make || scope.model) {
+    criteria.push({
+      label: `camera ${[scope.make, scope.model].filter(Boolean).join(" ")}`,
+      filters: { make: scope.make, model: scope.model },
+    });
+  }
+  if (scope.favoriteOnly) {
+    criteria.push({ label: "favorites", filters: { isFavorite: true } });
+  }
+
+  return Promise.all(
+    criteria.map(async ({ label, filters }) => {
+      const { total } = await searchAssetStatistics({
+        statisticsSearchDto: {
+          ...filters,
+          takenAfter,
+          takenBefore,
+          visibility: AssetVisibility.Timeline,
+        },
+      });
+      return { label, count: total };
+    }),
+  );
+}
+
 async function findAssetsForLocation(
   params: LocationSearchParams,
 ): Promise<LocationSearchResult> {
+  // Search the library's own spelling of the term, e.g. "Città del Vaticano" for "citta del vaticano".
+  const index = await getLocationIndex();
+  const matchedValues = new Set<string>();
   const searchResults = await Promise.all(
     LOCATION_FIELDS.map(async (field) => {
-      const assets = await searchAssetsByField(params, field);
-      return { field, assets };
+      const values = matchLocationValues(params.location, index[field]);
+      for (const value of values) {
+        if (value !== params.location) matchedValues.add(value);
+      }
+
+      const terms = values.length > 0 ? values : [params.location];
+      const assets = await Promise.all(
+        terms.map((location) => searchAssetsByField({ ...params, location }, field)),
+      );
+      return { field, assets: assets.flat() };
     }),
   );
 
@@ -188,42 +725,357 @@ async function findAssetsForLocation(
   return {
     assets: uniqueResults,
     countsByField,
+    matchedValues: [...matchedValues],
   };
 }
 
-function albumExistsByName(albums: AlbumResponseDto[], name: string): boolean {
-  return albums.some((album) => album.albumName === name);
+/** "Did you mean" hints for a location term that matched nothing. */
+async function suggestForLocation(location: string): Promise<string[]> {
+  const index = await getLocationIndex();
+  return suggestLocations(location, [...index.city, ...index.state, ...index.country]);
+}
+
+function findAlbumsByName(albums: AlbumResponseDto[], name: string): AlbumResponseDto[] {
+  return albums.filter((album) => album.albumName === name);
+}
+
+export function diffAlbumAssets(
+  currentIds: Set<string>,
+  matchedIds: Set<string>,
+  removeMissing: boolean,
+): AlbumAssetDiff {
+  const toAdd = [...matchedIds].filter((id) => !currentIds.has(id));
+  const outside = [...currentIds].filter((id) => !matchedIds.has(id));
+
+  return {
+    toAdd,
+    toRemove: removeMissing ? outside : [],
+    unchanged: currentIds.size - outside.length,
+    kept: removeMissing ? 0 : outside.length,
+  };
+}
+
+export interface ChunkedUpdateOptions {
+  chunkSize: number;
+  retries: number;
+  action: "add" | "remove";
+}
+
+export interface ChunkedUpdateResult {
+  /** Assets the album now has (or no longer has), including those a retry found already done. */
+  done: number;
+  /** Assets the server refused, with its reason (e.g. "no_permission"). */
+  rejected: { id: string; reason: string }[];
+  /** Set when a chunk still failed after its retries. */
+  error?: string;
+}
+
+/** Per-ID errors that mean the asset already is where the action wants it. */
+const ALREADY_DONE: Record<ChunkedUpdateOptions["action"], BulkIdError> = {
+  add: BulkIdError.Duplicate,
+  remove: BulkIdError.NotFound,
+};
+
+/**
+ * Sends `ids` to `send` in chunks, retrying transient errors for each chunk.
+ * Repeating a chunk is safe: assets a lost response already added come back
+ * as "duplicate" (removed ones as "not_found") and count as done. Other
+ * per-ID errors are collected in `rejected`. Stops at the first chunk that
+ * still fails, so a later --sync run picks up the rest.
+ */
+export async function updateAlbumInChunks(
+  ids: string[],
+  send: (chunk: string[]) => Promise<BulkIdResponseDto[]>,
+  options: ChunkedUpdateOptions,
+): Promise<ChunkedUpdateResult> {
+  const chunkCount = Math.ceil(ids.length / options.chunkSize);
+  const retry = { retries: options.retries, baseDelayMs: 500 };
+  const label = options.action === "add" ? "Added" : "Removed";
+  const result: ChunkedUpdateResult = { done: 0, rejected: [] };
+
+  for (let i = 0; i < ids.length; i += options.chunkSize) {
+    const chunk = ids.slice(i, i + options.chunkSize);
+    try {
+      const responses = await withRetry(() => send(chunk), retry);
+      for (const response of responses) {
+        if (response.success || response.error === ALREADY_DONE[options.action]) {
+          result.done++;
+        } else {
+          result.rejected.push({ id: response.id, reason: response.error ?? "unknown" });
+        }
+      }
+    } catch (err) {
+      result.error = err instanceof Error ? err.message : "Unknown error";
+      return result;
+    }
+
+    if (chunkCount > 1) {
+      console.log(
+        `  ${label} ${result.done}/${ids.length} (chunk ${i / options.chunkSize + 1}/${chunkCount})`,
+      );
+    }
+  }
+
+  return result;
 }
 
-function formatAssetCount(count: number): string {
+/**
+ * Prints the assets the server refused and returns an error for the result,
+ * or undefined when every asset went through.
+ */
+export function reportChunkFailures(result: ChunkedUpdateResult): string | undefined {
+  if (result.rejected.length > 0) {
+    const reasons = new Map<string, number>();
+    for (const { reason } of result.rejected) {
+      reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+    }
+    const summary = [...reasons].map(([reason, count]) => `${reason}: ${count}`).join(", ");
+    console.error(`  ${formatAssetCount(result.rejected.length)} refused by the server (${summary})`);
+    for (const { id, reason } of result.rejected.slice(0, 5)) {
+      console.error(`    ${id}: ${reason}`);
+    }
+    if (result.rejected.length > 5) {
+      console.error(`    ... and ${result.rejected.length - 5} more`);
+    }
+  }
+
+  if (result.error) {
+    return result.error;
+  }
+  return result.rejected.length > 0
+    ? `${formatAssetCount(result.rejected.length)} refused by the server`
+    : undefined;
+}
+
+export function formatAssetCount(count: number): string {
   return `${count} asset${count !== 1 ? "s" : ""}`;
 }
 
+/** Collects the assets in the date range that match any exclusion. */
+async function findExcludedAssetIds(
+  exclude: AlbumExclusions,
+  takenAfter: string,
+  takenBefore: string,
+): Promise<Set<string>> {
+  const excluded = new Set<string>();
+  const add = (assets: { id: string }[]) => {
+    for (const asset of assets) excluded.add(asset.id);
+  };
+
+  for (const location of exclude.locations) {
+    add((await findAssetsForLocation({ location, takenAfter, takenBefore })).assets);
+  }
+  for (const personId of await resolvePersonIds(exclude.people)) {
+    add(await searchAllAssets({ takenAfter, takenBefore, personIds: [personId] }));
+  }
+  for (const tagId of await resolveTagIds(exclude.tags)) {
+    add(await searchAllAssets({ takenAfter, takenBefore, tagIds: [tagId] }));
+  }
+
+  return excluded;
+}
+
+export interface AlbumReportEntry {
+  name: string;
+  result: AutoAlbumResult;
+}
+
+function describeResult(result: AutoAlbumResult): string {
+  switch (result.status) {
+    case "created":
+      return `created with ${formatAssetCount(result.added)}`;
+    case "updated":
+      return `+${result.added} / -${result.removed}`;
+    case "unchanged":
+      return `up to date (${formatAssetCount(result.matched)})`;
+    case "dry-run":
+      return `would add ${result.added}, remove ${result.removed}`;
+    default:
+      return result.error ?? "failed";
+  }
+}
+
+/** Prints one line per album followed by the album and failure counts. */
+export function printAlbumReport(title: string, report: AlbumReportEntry[]): void {
+  const nameWidth = Math.max(...report.map(({ name }) => name.length));
+  console.log(`${title}:`);
+  for (const { name, result } of report) {
+    console.log(`  ${name.padEnd(nameWidth)}  ${result.status.padEnd(9)}  ${describeResult(result)}`);
+  }
+
+  const failed = report.filter(({ result }) => result.status === "failed").length;
+  console.log(`\n  Albums:  ${report.length}, failed: ${failed}\n`);
+}
+
+/** Whether anything besides the date range narrows the search. */
+export function hasAssetFilter(
+  options: Pick<
+    AutoAlbumOptions,
+    | "locations"
+    | "near"
+    | "bbox"
+    | "query"
+    | "people"
+    | "tags"
+    | "cameraMake"
+    | "cameraModel"
+    | "favoriteOnly"
+    | "exclude"
+  >,
+): boolean {
+  return (
+    options.locations.length > 0 ||
+    options.near !== undefined ||
+    options.bbox !== undefined ||
+    options.query !== undefined ||
+    options.people.length > 0 ||
+    options.tags.length > 0 ||
+    options.cameraMake !== undefined ||
+    options.cameraModel !== undefined ||
+    options.favoriteOnly === true ||
+    options.exclude.locations.length > 0
+  );
+}
+
+function hasExclusions(exclude: AlbumExclusions): boolean {
+  return exclude.locations.length > 0 || exclude.people.length > 0 || exclude.tags.length > 0;
+}
+
 export async function autoAlbum(options: AutoAlbumOptions): Promise<number> {
-  const afterDate = parseDate(options.after);
-  const beforeDate = parseDate(options.before);
-  const verboseLog = options.verbose
-    ? (message: string) => console.log(`    ${message}`)
-    : () => {};
+  const results = options.groupBy
+    ? await runGroupedAutoAlbum(options, options.groupBy)
+    : [await runAutoAlbum(options)];
+  return results.some((result) => result.status === "exists" || result.status === "failed")
+    ? 1
+    : 0;
+}
 
-  console.log("\nImmich Auto-Album Tool\n");
-  console.log(`  Album name:     ${options.name}`);
+/** Parses the album's date range; both ends are required outside of trip detection. */
+export function parseRequiredDateRange(options: AutoAlbumOptions): {
+  after: string;
+  before: string;
+} {
+  const range = parseDateRange(options.after, options.before, { timeZone: options.timeZone });
+  if (!range.after || !range.before) {
+    throw new OptionError("Missing required option: --after and --before");
+  }
+  return { after: range.after, before: range.before };
+}
+
+export function printCriteria(options: AutoAlbumOptions): void {
   console.log(`  Date range:     ${options.after} to ${options.before}`);
-  console.log(`  Locations:      ${options.locations.join(", ")}`);
+  if (options.timeZone) console.log(`  Time zone:      ${options.timeZone}`);
+  if (options.locations.length > 0)
+    console.log(`  Locations:      ${options.locations.join(", ")}`);
+  for (const filter of buildGeoFilters(options)) {
+    console.log(`  Coordinates:    ${filter.label}`);
+  }
+  if (options.people.length > 0) {
+    const match = options.people.length > 1 ? ` (${options.personMatch ?? "all"})` : "";
+    console.log(`  People:         ${options.people.join(", ")}${match}`);
+  }
+  if (options.tags.length > 0)
+    console.log(`  Tags:           ${options.tags.join(", ")}`);
+  if (options.cameraMake || options.cameraModel)
+    console.log(
+      `  Camera:         ${[options.cameraMake, options.cameraModel].filter(Boolean).join(" ")}`,
+    );
+  if (options.favoriteOnly) console.log(`  Favorites only: Yes`);
+  if (options.query)
+    console.log(
+      `  Query:          ${options.query} (top ${options.queryLimit ?? DEFAULT_QUERY_LIMIT})`,
+    );
+  if (hasExclusions(options.exclude)) {
+    const { locations, people, tags } = options.exclude;
+    console.log(`  Excluding:      ${[...locations, ...people, ...tags].join(", ")}`);
+  }
+  if (options.sync)
+    console.log(`  Sync:           Yes${options.removeMissing ? " (remove missing)" : ""}`);
   console.log(`  Dry run:        ${options.dryRun ? "Yes" : "No"}`);
   console.log();
+}
+
+/**
+ * Finds the album to sync, or returns the result to report when the name is
+ * already taken and can't be used.
+ */
+export function checkExistingAlbum(
+  allAlbums: AlbumResponseDto[],
+  name: string,
+  sync: boolean,
+): { album?: AlbumResponseDto; result?: AutoAlbumResult } {
+  const existingAlbums = findAlbumsByName(allAlbums, name);
+  if (existingAlbums.length > 0 && !sync) {
+    console.error(
+      `\nError: Album "${name}" already exists. Use --sync to add new matches to it.\n`,
+    );
+    return {
+      result: { status: "exists", matched: 0, added: 0, removed: 0, error: "album already exists" },
+    };
+  }
+  if (existingAlbums.length > 1) {
+    const error = `${existingAlbums.length} albums are named "${name}"`;
+    console.error(`\nError: ${error}. Rename one before syncing.\n`);
+    return { result: { status: "failed", matched: 0, added: 0, removed: 0, error } };
+  }
+  return { album: existingAlbums[0] };
+}
+
+/** Creates or syncs one album and reports what happened, for single runs and rules files alike. */
+export async function runAutoAlbum(options: AutoAlbumOptions): Promise<AutoAlbumResult> {
+  if (options.removeMissing && !options.sync) {
+    throw new OptionError("--remove-missing requires --sync");
+  }
+  const { after: afterDate, before: beforeDate } = parseRequiredDateRange(options);
+
+  console.log("\nImmich Auto-Album Tool\n");
+  console.log(`  Album name:     ${options.name}`);
+  printCriteria(options);
+
+  const scope = await resolveScope(options);
+  const settings = options.settings && (await resolveAlbumSettings(options.settings));
 
   console.log("Checking for existing album...");
-  const allAlbums = await getAllAlbums({});
-  if (albumExistsByName(allAlbums, options.name)) {
-    console.error(`\nError: Album "${options.name}" already exists.\n`);
-    return 1;
+  const existing = checkExistingAlbum(await getAllAlbums({}), options.name, options.sync);
+  if (existing.result) {
+    return existing.result;
   }
-  console.log("  No duplicate found.\n");
+  if (existing.album) {
+    console.log(`  Found album ${existing.album.id}, syncing.\n`);
+  } else {
+    console.log("  No duplicate found.\n");
+  }
+
+  const matched = await findMatchingAssets(options, afterDate, beforeDate, scope);
+  return saveAlbum(options.name, new Set(matched.keys()), existing.album, options, settings);
+}
+
+/**
+ * Runs every location, coordinate and exclusion filter and prints the summary.
+ * Returns the matched assets by ID.
+ */
+export async function findMatchingAssets(
+  options: AutoAlbumOptions,
+  afterDate: string,
+  beforeDate: string,
+  scope: AssetScope,
+): Promise<Map<string, AssetData>> {
+  const geoFilters = buildGeoFilters(options);
+  const verboseLog = options.verbose
+    ? (message: string) => console.log(`    ${message}`)
+    : () => {};
 
   console.log("Searching for matching assets...");
+  if (options.verbose) {
+    const counts = await countByCriterion(options, scope, afterDate, beforeDate);
+    if (counts.length > 0) {
+      console.log(
+        `    by criterion: ${counts.map(({ label, count }) => `${label}=${count}`).join(", ")}`,
+      );
+    }
+  }
   const locationResults: Array<{ location: string; count: number }> = [];
-  const allAssetIds = new Set<string>();
+  const matched = new Map<string, AssetData>();
 
   for (const location of options.locations) {
     console.log(`  Location "${location}"...`);
@@ -231,17 +1083,29 @@ export async function autoAlbum(options: AutoAlbumOptions): Promise<number> {
       location,
       takenAfter: afterDate,
       takenBefore: beforeDate,
+      scope,
     });
 
+    if (locationSearch.matchedValues.length > 0) {
+      console.log(`    matched as: ${locationSearch.matchedValues.join(", ")}`);
+    }
     if (options.verbose) {
       console.log(
         `    by field: city=${locationSearch.countsByField.city}, country=${locationSearch.countsByField.country}, state=${locationSearch.countsByField.state}`,
       );
     }
+    if (locationSearch.assets.length === 0) {
+      const hints = await suggestForLocation(location);
+      if (hints.length > 0) {
+        console.log(
+          `    Did you mean: ${hints.join(", ")}? Run "immich-ts locations" to list them all.`,
+        );
+      }
+    }
 
-    const newAssets = locationSearch.assets.filter((asset) => !allAssetIds.has(asset.id));
+    const newAssets = locationSearch.assets.filter((asset) => !matched.has(asset.id));
     for (const asset of newAssets) {
-      allAssetIds.add(asset.id);
+      matched.set(asset.id, asset);
     }
 
     if (options.verbose && newAssets.length > 0) {
@@ -257,10 +1121,89 @@ export async function autoAlbum(options: AutoAlbumOptions): Promise<number> {
     console.log(`    ${formatAssetCount(newAssets.length)}\n`);
   }
 
-  const uniqueAssetCount = allAssetIds.size;
+  let notEvaluated = 0;
+  if (geoFilters.length > 0) {
+    const geoAssets = await fetchAssetsWithCoordinates(afterDate, beforeDate, scope);
+
+    for (const filter of geoFilters) {
+      console.log(`  Coordinates ${filter.label}...`);
+      const geoSearch = filterByCoordinates(geoAssets, filter);
+      notEvaluated = geoSearch.notEvaluated;
+
+      const newAssets = geoSearch.matched.filter((asset) => !matched.has(asset.id));
+      for (const asset of newAssets) {
+        matched.set(asset.id, asset);
+      }
+
+      if (options.verbose && newAssets.length > 0) {
+        for (const asset of newAssets.slice(0, 5)) {
+          verboseLog(`+ ${asset.originalFileName}`);
+        }
+        if (newAssets.length > 5) {
+          verboseLog(`... and ${newAssets.length - 5} more`);
+        }
+      }
+
+      locationResults.push({ location: filter.label, count: newAssets.length });
+      console.log(`    ${formatAssetCount(newAssets.length)}\n`);
+    }
+  }
+
+  const hasLocationTerms = options.locations.length > 0 || geoFilters.length > 0;
+  if (options.query) {
+    console.log(`  Query "${options.query}"...`);
+    const queryAssets = await smartSearchInScope(
+      options.query,
+      options.queryLimit ?? DEFAULT_QUERY_LIMIT,
+      { takenAfter: afterDate, takenBefore: beforeDate },
+      scope,
+    );
+
+    if (hasLocationTerms) {
+      // The query narrows the location matches instead of adding to them.
+      const queryIds = new Set(queryAssets.map((asset) => asset.id));
+      const locationMatches = matched.size;
+      for (const id of matched.keys()) {
+        if (!queryIds.has(id)) matched.delete(id);
+      }
+      console.log(
+        `    ${formatAssetCount(queryAssets.length)}, ${matched.size} of ${locationMatches} location matches\n`,
+      );
+    } else {
+      for (const asset of queryAssets) {
+        matched.set(asset.id, toAssetData(asset));
+      }
+      console.log(`    ${formatAssetCount(queryAssets.length)}\n`);
+    }
+  }
+
+  // Without any location term or query, every asset in the date range (and scope) matches.
+  if (!hasLocationTerms && !options.query) {
+    console.log("  All assets in the date range...");
+    const assets = await searchInScope({ takenAfter: afterDate, takenBefore: beforeDate }, scope);
+    for (const asset of assets) {
+      matched.set(asset.id, toAssetData(asset));
+    }
+    console.log(`    ${formatAssetCount(assets.length)}\n`);
+  }
+
+  let excludedCount = 0;
+  if (hasExclusions(options.exclude)) {
+    const excluded = await findExcludedAssetIds(options.exclude, afterDate, beforeDate);
+    for (const id of excluded) {
+      if (matched.delete(id)) excludedCount++;
+    }
+  }
 
   console.log("Summary:");
-  console.log(`  Total unique assets: ${formatAssetCount(uniqueAssetCount)}\n`);
+  console.log(`  Total unique assets: ${formatAssetCount(matched.size)}`);
+  if (geoFilters.length > 0) {
+    console.log(`  Not evaluated (no GPS): ${formatAssetCount(notEvaluated)}`);
+  }
+  if (hasExclusions(options.exclude)) {
+    console.log(`  Excluded: ${formatAssetCount(excludedCount)}`);
+  }
+  console.log();
 
   if (locationResults.length > 0) {
     console.log("Assets per location:");
@@ -270,40 +1213,179 @@ export async function autoAlbum(options: AutoAlbumOptions): Promise<number> {
     console.log();
   }
 
-  if (uniqueAssetCount === 0) {
+  if (matched.size === 0) {
     console.warn("Warning: No assets found matching the criteria.\n");
   }
 
+  return matched;
+}
+
+/**
+ * Syncs `existingAlbum` when given, otherwise creates the album (or previews it
+ * with --dry-run), then applies the album settings.
+ */
+export async function saveAlbum(
+  name: string,
+  assetIds: Set<string>,
+  existingAlbum: AlbumResponseDto | undefined,
+  options: AutoAlbumOptions,
+  settings?: ResolvedAlbumSettings,
+): Promise<AutoAlbumResult> {
+  const result = existingAlbum
+    ? await syncAlbum(existingAlbum.id, assetIds, options)
+    : await createNewAlbum(name, assetIds, options);
+
+  if (settings && result.status !== "failed") {
+    const error = await applyAlbumSettings(result.albumId, settings, options.dryRun);
+    if (error) {
+      return { ...result, status: "failed", error };
+    }
+  }
+  return result;
+}
+
+export async function createNewAlbum(
+  name: string,
+  assetIds: Set<string>,
+  options: Pick<AutoAlbumOptions, "dryRun" | "chunkSize" | "retries">,
+): Promise<AutoAlbumResult> {
+  const assetCount = assetIds.size;
   if (options.dryRun) {
     console.log("[dry-run] Would create album");
-    console.log(`  Name: "${options.name}"`);
-    console.log(`  Assets: ${formatAssetCount(uniqueAssetCount)}\n`);
-    return 0;
+    console.log(`  Name: "${name}"`);
+    console.log(`  Assets: ${formatAssetCount(assetCount)}\n`);
+    return { status: "dry-run", matched: assetCount, added: assetCount, removed: 0 };
   }
 
-  if (uniqueAssetCount === 0) {
+  if (assetCount === 0) {
     console.log("Creating empty album...\n");
   } else {
-    console.log(`Creating album with ${formatAssetCount(uniqueAssetCount)}...\n`);
+    console.log(`Creating album with ${formatAssetCount(assetCount)}...\n`);
   }
 
+  // The album is created empty and filled in chunks, so a large match never
+  // has to fit into a single request.
+  let album: AlbumResponseDto;
   try {
-    const album = await createAlbum({
-      createAlbumDto: {
-        albumName: options.name,
-        assetIds: Array.from(allAssetIds),
-      },
-    });
-
-    console.log(`Created album "${album.albumName}"`);
-    console.log(`  Album ID: ${album.id}`);
-    console.log(`  Assets: ${formatAssetCount(uniqueAssetCount)}\n`);
-
-    return 0;
+    album = await createAlbum({ createAlbumDto: { albumName: name } });
   } catch (err) {
+    const error = err instanceof Error ? err.message : "Unknown error";
+    console.error(`\nFailed to create album: ${error}\n`);
+    return { status: "failed", matched: assetCount, added: 0, removed: 0, error };
+  }
+
+  const added = await updateAlbumInChunks(
+    Array.from(assetIds),
+    (ids) => addAssetsToAlbum({ id: album.id, bulkIdsDto: { ids } }),
+    { ...chunkOptions(options), action: "add" },
+  );
+  const error = reportChunkFailures(added);
+  if (error) {
     console.error(
-      `\nFailed to create album: ${err instanceof Error ? err.message : "Unknown error"}\n`
+      `\nFailed to add assets to album "${album.albumName}" after ${formatAssetCount(added.done)}: ${error}`,
     );
-    return 1;
+    if (added.error) {
+      console.error("  Run again with --sync to add the rest.");
+    }
+    console.error();
+    return {
+      status: "failed",
+      albumId: album.id,
+      matched: assetCount,
+      added: added.done,
+      removed: 0,
+      error,
+    };
   }
+
+  console.log(`Created album "${album.albumName}"`);
+  console.log(`  Album ID: ${album.id}`);
+  console.log(`  Assets: ${formatAssetCount(added.done)}\n`);
+
+  return {
+    status: "created",
+    albumId: album.id,
+    matched: assetCount,
+    added: added.done,
+    removed: 0,
+  };
+}
+
+function chunkOptions(
+  options: Pick<AutoAlbumOptions, "chunkSize" | "retries">,
+): Omit<ChunkedUpdateOptions, "action"> {
+  return { chunkSize: options.chunkSize ?? DEFAULT_CHUNK_SIZE, retries: options.retries ?? 3 };
+}
+
+async function syncAlbum(
+  albumId: string,
+  matchedIds: Set<string>,
+  options: AutoAlbumOptions,
+): Promise<AutoAlbumResult> {
+  const album = await getAlbumInfo({ id: albumId, withoutAssets: false });
+  const currentIds = new Set(album.assets.map((asset) => asset.id));
+  const diff = diffAlbumAssets(currentIds, matchedIds, options.removeMissing);
+  const result: AutoAlbumResult = {
+    status: "dry-run",
+    albumId,
+    matched: matchedIds.size,
+    added: diff.toAdd.length,
+    removed: diff.toRemove.length,
+  };
+
+  console.log(options.dryRun ? "[dry-run] Would update album" : "Album changes:");
+  console.log(`  Name: "${album.albumName}"`);
+  console.log(`  Added:      ${formatAssetCount(diff.toAdd.length)}`);
+  console.log(`  Removed:    ${formatAssetCount(diff.toRemove.length)}`);
+  console.log(`  Unchanged:  ${formatAssetCount(diff.unchanged)}`);
+  if (diff.kept > 0) {
+    console.log(
+      `  Kept:       ${formatAssetCount(diff.kept)} no longer matching (use --remove-missing to remove)`,
+    );
+  }
+  console.log();
+
+  if (options.dryRun) {
+    return result;
+  }
+  if (diff.toAdd.length === 0 && diff.toRemove.length === 0) {
+    console.log("Album is already up to date.\n");
+    return { ...result, status: "unchanged" };
+  }
+
+  if (diff.toAdd.length > 0) {
+    const added = await updateAlbumInChunks(
+      diff.toAdd,
+      (ids) => addAssetsToAlbum({ id: albumId, bulkIdsDto: { ids } }),
+      { ...chunkOptions(options), action: "add" },
+    );
+    result.added = added.done;
+    console.log(`Added ${formatAssetCount(result.added)}`);
+    const error = reportChunkFailures(added);
+    if (error) {
+      return failUpdate(result, error);
+    }
+  }
+  if (diff.toRemove.length > 0) {
+    const removed = await updateAlbumInChunks(
+      diff.toRemove,
+      (ids) => removeAssetFromAlbum({ id: albumId, bulkIdsDto: { ids } }),
+      { ...chunkOptions(options), action: "remove" },
+    );
+    result.removed = removed.done;
+    console.log(`Removed ${formatAssetCount(result.removed)}`);
+    const error = reportChunkFailures(removed);
+    if (error) {
+      return failUpdate(result, error);
+    }
+  }
+  console.log(`  Album ID: ${albumId}\n`);
+
+  return { ...result, status: "updated" };
+}
+
+function failUpdate(result: AutoAlbumResult, error: string): AutoAlbumResult {
+  console.error(`\nFailed to update album: ${error}`);
+  console.error("  Run again with --sync to apply the rest.\n");
+  return { ...result, status: "failed", error };
 }
@@ -1,13 +1,49 @@
+import { parseDate, validateTimeZone } from "../dates.ts";
 import type { Config } from "../env.ts";
-import { registry } from "../registry.ts";
-import { autoAlbum, autoAlbumCommandMeta } from "./auto-album.ts";
-import { stack, stackCommandMeta } from "./stack.ts";
+import { parseBoundingBox, parseCoordinates } from "../geo.ts";
+import { OptionError, registry } from "../registry.ts";
+import {
+  DEFAULT_CHUNK_SIZE,
+  PERSON_MATCH_MODES,
+  autoAlbum,
+  autoAlbumCommandMeta,
+  hasAssetFilter,
+} from "./auto-album.ts";
+import { GROUP_PERIODS } from "./auto-album-periods.ts";
+import { autoAlbumIcs } from "./auto-album-ics.ts";
+import { autoAlbumRules } from "./auto-album-rules.ts";
+import {
+  ALBUM_ORDERS,
+  ALBUM_ROLES,
+  validateCover,
+  type AlbumSettings,
+} from "./auto-album-settings.ts";
+import { detectTripAlbums } from "./auto-album-trips.ts";
+import {
+  COVER_STRATEGIES,
+  EXISTING_STACK_POLICIES,
+  MATCH_MODES,
+  SEQUENCE_COVER_RULES,
+  applyStackPlan,
+  stack,
+  stackCommandMeta,
+  type CoverSelection,
+  type CreateStacksOptions,
+} from "./stack.ts";
+import { LOCATION_TYPES, locations, locationsCommandMeta } from "./locations.ts";
+import { stackAudit, stackAuditCommandMeta } from "./stack-audit.ts";
+import {
+  listStackPresets,
+  resolveCoverPattern,
+  resolveStackPatterns,
+} from "./stack-presets.ts";
+import { unstack, unstackCommandMeta } from "./unstack.ts";
 import { validate, validateCommandMeta } from "./validate.ts";
 
 function getRequiredStringOption(options: Record<string, unknown>, name: string): string {
   const value = options[name];
   if (typeof value !== "string") {
-    throw new Error(`Missing required option: --${name}`);
+    throw new OptionError(`Missing required option: --${name}`);
   }
 
   return value;
@@ -21,6 +57,52 @@ function getOptionalStringOption(
   return typeof value === "string" ? value : undefined;
 }
 
+function getChoiceOption<T extends string>(
+  options: Record<string, unknown>,
+  name: string,
+  choices: readonly T[],
+  defaultValue: T,
+): T {
+  const value = options[name];
+  if (value === undefined) {
+    return defaultValue;
+  }
+
+  const choice = choices.find((item) => item === value);
+  if (!choice) {
+    throw new OptionError(
+      `Invalid value for --${name}: "${String(value)}". Expected one of: ${choices.join(", ")}`,
+    );
+  }
+
+  return choice;
+}
+
+function getNumberOption(
+  options: Record<string, unknown>,
+  name: string,
+  defaultValue: number,
+): number {
+  const value = options[name];
+  if (typeof value !== "string") {
+    return defaultValue;
+  }
+
+  const parsed = Number(value);
+  if (value.trim() === "" || !Number.isFinite(parsed) || parsed < 0) {
+    throw new OptionError(
+      `Invalid value for --${name}: "${value}". Expected a non-negative number`,
+    );
+  }
+
+  return parsed;
+}
+
+function getTimeZone(options: Record<string, unknown>): string | undefined {
+  const timeZone = getOptionalStringOption(options, "tz");
+  return timeZone === undefined ? undefined : validateTimeZone(timeZone);
+}
+
 function getBooleanOption(options: Record<string, unknown>, name: string): boolean {
   return options[name] === true;
 }
@@ -40,6 +122,18 @@ function getStringArrayOption(options: Record<string, unknown>, name: string): s
   return [];
 }
 
+function getListOption(options: Record<string, unknown>, name: string): string[] {
+  const value = getOptionalStringOption(options, name);
+  if (value === undefined) {
+    return [];
+  }
+
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
 registry.setGlobalOptions({
   options: [
     {
@@ -48,11 +142,27 @@ registry.setGlobalOptions({
       type: "boolean",
       description: "Show this help message",
     },
+    {
+      name: "tz",
+      type: "string",
+      description: "Time zone for --after/--before dates, e.g. Asia/Tokyo (default: local)",
+      placeholder: "zone",
+    },
   ],
   envVars: [
     { name: "IMMICH_URL", description: "Server URL (e.g., https://immich.example.com)" },
     { name: "IMMICH_API_KEY", description: "Your API key" },
   ],
+  sections: [
+    {
+      title: "DATES",
+      lines: [
+        "--after and --before accept YYYY-MM-DD, an ISO date-time, today, yesterday,",
+        "Nd or Nw (N days or weeks ago), this-month, last-month, this-year or last-year.",
+        "Dates without a time cover the whole day in --tz, so --before includes that day.",
+      ],
+    },
+  ],
 });
 
 registry.register({
@@ -60,30 +170,350 @@ registry.register({
   handler: (config: Config) => validate(config),
 });
 
+function getCoverSelection(options: Record<string, unknown>): CoverSelection {
+  const strategy = getChoiceOption(options, "cover-strategy", COVER_STRATEGIES, "last");
+  const extensionPriority = getListOption(options, "extension-priority").map((ext) =>
+    ext.replace(/^\./, "").toLowerCase(),
+  );
+  if (strategy === "extension" && extensionPriority.length === 0) {
+    throw new OptionError("--cover-strategy extension requires --extension-priority");
+  }
+
+  return { strategy, extensionPriority };
+}
+
+function getAlbumSettings(config: Config, options: Record<string, unknown>): AlbumSettings {
+  const cover = getOptionalStringOption(options, "cover");
+  if (cover !== undefined) {
+    validateCover(cover);
+  }
+
+  const shareWith = getStringArrayOption(options, "share-with");
+  if (options.role !== undefined && shareWith.length === 0) {
+    throw new OptionError("--role requires --share-with");
+  }
+
+  const sharedLink = getBooleanOption(options, "shared-link");
+  const expires = getOptionalStringOption(options, "link-expires");
+  const password = getOptionalStringOption(options, "link-password");
+  if ((expires !== undefined || password !== undefined) && !sharedLink) {
+    throw new OptionError("--link-expires and --link-password require --shared-link");
+  }
+  const expiresAt =
+    expires === undefined ? undefined : parseDate(expires, "end", { timeZone: getTimeZone(options) });
+  if (expiresAt !== undefined && Date.parse(expiresAt) <= Date.now()) {
+    throw new OptionError(`--link-expires must be in the future, got ${expires}`);
+  }
+
+  return {
+    description: getOptionalStringOption(options, "description"),
+    cover,
+    order:
+      options.order === undefined
+        ? undefined
+        : getChoiceOption(options, "order", ALBUM_ORDERS, "desc"),
+    shareWith,
+    role: getChoiceOption(options, "role", ALBUM_ROLES, "viewer"),
+    sharedLink: sharedLink
+      ? { expiresAt, password }
+      : undefined,
+    serverUrl: config.url,
+  };
+}
+
+// Options that still apply with --detect-trips; the rest would be ignored.
+const TRIP_OPTIONS = new Set([
+  "detect-trips",
+  "home",
+  "min-distance",
+  "trip-gap",
+  "trip-min",
+  "trip",
+  "after",
+  "before",
+  "chunk-size",
+  "retries",
+  "dry-run",
+  "verbose",
+]);
+
+function getRetriesOption(options: Record<string, unknown>): number {
+  const retries = getNumberOption(options, "retries", 3);
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new OptionError("--retries must be a whole number of at least 0");
+  }
+  return retries;
+}
+
+function getChunkOptions(options: Record<string, unknown>): {
+  chunkSize: number;
+  retries: number;
+} {
+  const chunkSize = getNumberOption(options, "chunk-size", DEFAULT_CHUNK_SIZE);
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new OptionError("--chunk-size must be a whole number of at least 1");
+  }
+
+  return { chunkSize, retries: getRetriesOption(options) };
+}
+
+function getCreateStacksOptions(options: Record<string, unknown>): CreateStacksOptions {
+  const concurrency = getNumberOption(options, "concurrency", 4);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new OptionError("--concurrency must be a whole number of at least 1");
+  }
+
+  return { concurrency, retries: getRetriesOption(options) };
+}
+
 registry.register({
   ...stackCommandMeta,
-  handler: (_config: Config, opts: Record<string, unknown>) =>
-    stack({
-      coverPattern: getRequiredStringOption(opts, "cover"),
-      rawPattern: getRequiredStringOption(opts, "raw"),
-      stemPattern: getOptionalStringOption(opts, "stem-pattern"),
+  handler: async (_config: Config, opts: Record<string, unknown>) => {
+    if (getBooleanOption(opts, "list-presets")) {
+      return listStackPresets();
+    }
+
+    const planPath = getOptionalStringOption(opts, "apply");
+    if (planPath !== undefined) {
+      return applyStackPlan({
+        planPath,
+        manifestPath: getOptionalStringOption(opts, "manifest"),
+        creation: getCreateStacksOptions(opts),
+        dryRun: getBooleanOption(opts, "dry-run"),
+        verbose: getBooleanOption(opts, "verbose"),
+      });
+    }
+
+    const preset = getOptionalStringOption(opts, "preset");
+    const cover = getOptionalStringOption(opts, "cover");
+    const raw = getOptionalStringOption(opts, "raw");
+    const stemPattern = getOptionalStringOption(opts, "stem-pattern");
+    const matchMode = getChoiceOption(opts, "match", MATCH_MODES, "stem");
+    // A stack needs at least two assets, so shorter "sequences" would only fail on the server.
+    const sequenceMin = getNumberOption(opts, "sequence-min", 3);
+    if (!Number.isInteger(sequenceMin) || sequenceMin < 2) {
+      throw new OptionError("--sequence-min must be a whole number of at least 2");
+    }
+    // Sequences don't need cover/raw patterns; when given they only narrow the candidates.
+    const patterns =
+      matchMode === "sequence" && !preset && !cover && !raw
+        ? { stemPattern }
+        : resolveStackPatterns({ preset, cover, raw, stemPattern });
+
+    return stack({
+      preset,
+      ...patterns,
+      matchMode,
+      timeToleranceMs: getNumberOption(opts, "time-tolerance", 1000),
+      sameCamera: getBooleanOption(opts, "same-camera"),
+      coverSelection: getCoverSelection(opts),
+      anyDirectory: getBooleanOption(opts, "any-directory"),
+      captureWindowMs:
+        opts["capture-window"] === undefined
+          ? undefined
+          : getNumberOption(opts, "capture-window", 0) * 60 * 60 * 1000,
+      sequence: {
+        gapMs: getNumberOption(opts, "sequence-gap", 1000),
+        minFrames: sequenceMin,
+        bracketOnly: getBooleanOption(opts, "bracket-only"),
+        coverRule: getChoiceOption(opts, "sequence-cover", SEQUENCE_COVER_RULES, "middle"),
+      },
+      existingPolicy: getChoiceOption(opts, "existing", EXISTING_STACK_POLICIES, "skip"),
       dryRun: getBooleanOption(opts, "dry-run"),
+      planOut: getOptionalStringOption(opts, "plan-out"),
+      manifestPath: getOptionalStringOption(opts, "manifest"),
+      creation: getCreateStacksOptions(opts),
+      after: getOptionalStringOption(opts, "after"),
+      before: getOptionalStringOption(opts, "before"),
+      timeZone: getTimeZone(opts),
+      scope: {
+        albums: getStringArrayOption(opts, "album"),
+        people: getStringArrayOption(opts, "person"),
+        tags: getStringArrayOption(opts, "tag"),
+        cameraMake: getOptionalStringOption(opts, "camera-make"),
+        cameraModel: getOptionalStringOption(opts, "camera-model"),
+        pathPrefix: getOptionalStringOption(opts, "path"),
+      },
+      verbose: getBooleanOption(opts, "verbose"),
+    });
+  },
+});
+
+registry.register({
+  ...stackAuditCommandMeta,
+  handler: (_config: Config, opts: Record<string, unknown>) => {
+    const preset = getOptionalStringOption(opts, "preset");
+
+    return stackAudit({
+      preset,
+      coverPattern: resolveCoverPattern({
+        preset,
+        cover: getOptionalStringOption(opts, "cover"),
+      }),
+      coverSelection: getCoverSelection(opts),
+      fix: getBooleanOption(opts, "fix"),
+      verbose: getBooleanOption(opts, "verbose"),
+    });
+  },
+});
+
+registry.register({
+  ...unstackCommandMeta,
+  handler: (_config: Config, opts: Record<string, unknown>) =>
+    unstack({
+      manifestPath: getOptionalStringOption(opts, "manifest"),
+      albums: getStringArrayOption(opts, "album"),
       after: getOptionalStringOption(opts, "after"),
       before: getOptionalStringOption(opts, "before"),
-      albumId: getOptionalStringOption(opts, "album"),
+      timeZone: getTimeZone(opts),
+      dryRun: getBooleanOption(opts, "dry-run"),
       verbose: getBooleanOption(opts, "verbose"),
     }),
 });
 
 registry.register({
   ...autoAlbumCommandMeta,
-  handler: (_config: Config, opts: Record<string, unknown>) =>
-    autoAlbum({
+  handler: async (config: Config, opts: Record<string, unknown>) => {
+    const icsPath = getOptionalStringOption(opts, "ics");
+    const hasEventFilter = opts["ics-category"] !== undefined || opts["ics-summary"] !== undefined;
+    if (icsPath === undefined && hasEventFilter) {
+      throw new OptionError("--ics-category and --ics-summary require --ics");
+    }
+    const otherMode = opts.rules !== undefined || getBooleanOption(opts, "detect-trips");
+    if (icsPath !== undefined && otherMode) {
+      throw new OptionError("--ics cannot be combined with --rules or --detect-trips");
+    }
+
+    const rulesPath = getOptionalStringOption(opts, "rules");
+    if (rulesPath !== undefined) {
+      if (opts.name !== undefined || getBooleanOption(opts, "detect-trips")) {
+        throw new OptionError("--rules cannot be combined with --name or --detect-trips");
+      }
+      return autoAlbumRules({
+        rulesPath,
+        timeZone: getTimeZone(opts),
+        ...getChunkOptions(opts),
+        dryRun: getBooleanOption(opts, "dry-run"),
+        verbose: getBooleanOption(opts, "verbose"),
+      });
+    }
+
+    if (getBooleanOption(opts, "detect-trips")) {
+      const ignored = autoAlbumCommandMeta.options
+        .map((option) => option.name)
+        .filter((name) => !TRIP_OPTIONS.has(name) && opts[name] !== undefined);
+      if (ignored.length > 0) {
+        throw new OptionError(
+          `--detect-trips cannot be combined with ${ignored.map((name) => `--${name}`).join(", ")}`,
+        );
+      }
+      return detectTripAlbums({
+        home: getRequiredStringOption(opts, "home"),
+        after: getOptionalStringOption(opts, "after"),
+        before: getOptionalStringOption(opts, "before"),
+        timeZone: getTimeZone(opts),
+        minDistanceKm: getNumberOption(opts, "min-distance", 50),
+        gapHours: getNumberOption(opts, "trip-gap", 48),
+        minAssets: getNumberOption(opts, "trip-min", 10),
+        trips: getStringArrayOption(opts, "trip").map((value) => {
+          const number = Number(value);
+          if (!Number.isInteger(number)) {
+            throw new OptionError(`Invalid value for --trip: "${value}". Expected a number`);
+          }
+          return number;
+        }),
+        ...getChunkOptions(opts),
+        dryRun: getBooleanOption(opts, "dry-run"),
+        verbose: getBooleanOption(opts, "verbose"),
+      });
+    }
+
+    const settings = getAlbumSettings(config, opts);
+    const locations = getStringArrayOption(opts, "location");
+    const near = getOptionalStringOption(opts, "near");
+    const radius = getOptionalStringOption(opts, "radius");
+    const bbox = getOptionalStringOption(opts, "bbox");
+    const query = getOptionalStringOption(opts, "query");
+    const people = getStringArrayOption(opts, "person");
+    const tags = getStringArrayOption(opts, "tag");
+    const cameraMake = getOptionalStringOption(opts, "camera-make");
+    const cameraModel = getOptionalStringOption(opts, "camera-model");
+    const favoriteOnly = getBooleanOption(opts, "favorite-only");
+    const excludeLocations = getStringArrayOption(opts, "exclude-location");
+    if ((near === undefined) !== (radius === undefined)) {
+      throw new OptionError("--near and --radius must be used together");
+    }
+    const queryLimit = getNumberOption(opts, "query-limit", 250);
+    if (!Number.isInteger(queryLimit) || queryLimit < 1) {
+      throw new OptionError("--query-limit must be a whole number of at least 1");
+    }
+    const shared = {
+      timeZone: getTimeZone(opts),
+      near: near === undefined ? undefined : parseCoordinates(near, "near"),
+      radiusKm: radius === undefined ? undefined : getNumberOption(opts, "radius", 0),
+      bbox: bbox === undefined ? undefined : parseBoundingBox(bbox, "bbox"),
+      query,
+      queryLimit,
+      people,
+      personMatch: getChoiceOption(opts, "person-match", PERSON_MATCH_MODES, "all"),
+      tags,
+      cameraMake,
+      cameraModel,
+      favoriteOnly,
+      exclude: { locations: excludeLocations, people: [], tags: [] },
+      settings,
+      ...getChunkOptions(opts),
+      sync: getBooleanOption(opts, "sync"),
+      removeMissing: getBooleanOption(opts, "remove-missing"),
+      dryRun: getBooleanOption(opts, "dry-run"),
+      verbose: getBooleanOption(opts, "verbose"),
+    };
+
+    // Each event supplies the album name, dates and location; the other filters apply to all of them.
+    if (icsPath !== undefined) {
+      if (opts.name !== undefined || locations.length > 0 || opts["group-by"] !== undefined) {
+        throw new OptionError("--ics cannot be combined with --name, --location or --group-by");
+      }
+      return autoAlbumIcs({
+        ...shared,
+        icsPath,
+        categories: getStringArrayOption(opts, "ics-category"),
+        summaryPattern: getOptionalStringOption(opts, "ics-summary"),
+        after: getOptionalStringOption(opts, "after"),
+        before: getOptionalStringOption(opts, "before"),
+      });
+    }
+
+    if (!hasAssetFilter({ ...shared, locations })) {
+      throw new OptionError(
+        "Missing required option: --location (or another filter such as --near, --person or --tag)",
+      );
+    }
+
+    return autoAlbum({
+      ...shared,
       name: getRequiredStringOption(opts, "name"),
       after: getRequiredStringOption(opts, "after"),
       before: getRequiredStringOption(opts, "before"),
-      locations: getStringArrayOption(opts, "location"),
-      dryRun: getBooleanOption(opts, "dry-run"),
-      verbose: getBooleanOption(opts, "verbose"),
-    }),
+      locations,
+      groupBy:
+        opts["group-by"] === undefined
+          ? undefined
+          : getChoiceOption(opts, "group-by", GROUP_PERIODS, "month"),
+    });
+  },
+});
+
+registry.register({
+  ...locationsCommandMeta,
+  handler: async (_config: Config, opts: Record<string, unknown>) => {
+    const type = getChoiceOption(opts, "type", [...LOCATION_TYPES, "all"], "all");
+    return locations({
+      after: getOptionalStringOption(opts, "after"),
+      before: getOptionalStringOption(opts, "before"),
+      timeZone: getTimeZone(opts),
+      types: type === "all" ? [...LOCATION_TYPES] : [type],
+      search: getOptionalStringOption(opts, "search"),
+    });
+  },
 });
@@ -0,0 +1,192 @@
+import {
+  getSearchSuggestions,
+  searchAssetStatistics,
+  AssetVisibility,
+  SearchSuggestionType,
+} from "@immich/sdk";
+import { runWithConcurrency } from "../api/retry.ts";
+import { parseDateRange } from "../dates.ts";
+import type { CommandOption } from "../registry.ts";
+
+export const locationsCommandMeta = {
+  name: "locations",
+  description: "List the cities, states and countries in your library with asset counts",
+  options: [
+    {
+      name: "after",
+      type: "string",
+      description: "Only count assets taken on or after this date (see DATES)",
+      placeholder: "date",
+    },
+    {
+      name: "before",
+      type: "string",
+      description: "Only count assets taken on or before this date (see DATES)",
+      placeholder: "date",
+    },
+    {
+      name: "type",
+      type: "string",
+      description: "Only list this kind of location: city, state, country or all (default: all)",
+      placeholder: "type",
+    },
+    {
+      name: "search",
+      type: "string",
+      description: "Only list locations similar to this text",
+      placeholder: "text",
+    },
+  ] as CommandOption[],
+  examples: [
+    "immich-ts locations --after 2024-06-01 --before 2024-06-15",
+    "immich-ts locations --type city --search vatican",
+  ],
+};
+
+export const LOCATION_TYPES = ["city", "state", "country"] as const;
+
+export type LocationType = (typeof LOCATION_TYPES)[number];
+
+export type LocationIndex = Record<LocationType, string[]>;
+
+interface LocationsOptions {
+  after?: string;
+  before?: string;
+  timeZone?: string;
+  types: LocationType[];
+  search?: string;
+}
+
+const SUGGESTION_TYPES: Record<LocationType, SearchSuggestionType> = {
+  city: SearchSuggestionType.City,
+  state: SearchSuggestionType.State,
+  country: SearchSuggestionType.Country,
+};
+
+const TYPE_TITLES: Record<LocationType, string> = {
+  city: "Cities",
+  state: "States",
+  country: "Countries",
+};
+
+const COUNT_CONCURRENCY = 8;
+
+let locationIndex: Promise<LocationIndex> | undefined;
+
+/** Lowercases and strips diacritics, so "Città" and "citta" compare equal. */
+export function normalizeLocation(value: string): string {
+  return value.normalize("NFD").replace(/\p{Diacritic}/gu, "").toLowerCase().trim();
+}
+
+/** Returns the library values that equal `term`, ignoring case and diacritics. */
+export function matchLocationValues(term: string, values: string[]): string[] {
+  const target = normalizeLocation(term);
+  return values.filter((value) => normalizeLocation(value) === target);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+function words(value: string): string[] {
+  return value.split(/[\s,.'-]+/).filter((word) => word.length >= 4);
+}
+
+/**
+ * Finds library values that look like `term`: a small typo ("Roma" for
+ * "Rome"), one containing the other, or a shared word stem ("Vatican" and
+ * "Vaticano"). Closest matches come first.
+ */
+export function suggestLocations(term: string, values: string[], limit = 3): string[] {
+  const target = normalizeLocation(term);
+  const targetWords = words(target);
+  const maxDistance = Math.max(1, Math.floor(target.length / 4));
+
+  const scored: Array<{ value: string; distance: number }> = [];
+  for (const value of new Set(values)) {
+    const normalized = normalizeLocation(value);
+    const distance = editDistance(target, normalized);
+    const related =
+      distance <= maxDistance ||
+      normalized.includes(target) ||
+      target.includes(normalized) ||
+      words(normalized).some((word) =>
+        targetWords.some((targetWord) => word.startsWith(targetWord) || targetWord.startsWith(word)),
+      );
+    if (related) {
+      scored.push({ value, distance });
+    }
+  }
+
+  return scored
+    .sort((a, b) => a.distance - b.distance || a.value.localeCompare(b.value))
+    .slice(0, limit)
+    .map(({ value }) => value);
+}
+
+/** Fetches the distinct city, state and country values once per run. */
+export function getLocationIndex(): Promise<LocationIndex> {
+  locationIndex ??= Promise.all(
+    LOCATION_TYPES.map((type) => getSearchSuggestions({ $type: SUGGESTION_TYPES[type] })),
+  ).then(([city, state, country]) => ({ city: city!, state: state!, country: country! }));
+  return locationIndex;
+}
+
+export async function locations(options: LocationsOptions): Promise<number> {
+  const range = parseDateRange(options.after, options.before, { timeZone: options.timeZone });
+
+  console.log("\nImmich Locations\n");
+  if (options.after) console.log(`  After:          ${options.after}`);
+  if (options.before) console.log(`  Before:         ${options.before}`);
+  console.log(`  Types:          ${options.types.join(", ")}`);
+  if (options.search) console.log(`  Search:         ${options.search}`);
+  console.log();
+
+  console.log("Fetching locations...\n");
+  const index = await getLocationIndex();
+
+  for (const type of options.types) {
+    const values = options.search
+      ? suggestLocations(options.search, index[type], Number.POSITIVE_INFINITY)
+      : index[type];
+
+    const counts: number[] = [];
+    await runWithConcurrency(values, COUNT_CONCURRENCY, async (value, i) => {
+      const { total } = await searchAssetStatistics({
+        statisticsSearchDto: {
+          [type]: value,
+          takenAfter: range.after,
+          takenBefore: range.before,
+          visibility: AssetVisibility.Timeline,
+        },
+      });
+      counts[i] = total;
+    });
+
+    const entries = values
+      .map((value, i) => ({ value, count: counts[i] ?? 0 }))
+      .filter(({ count }) => count > 0)
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+    console.log(`${TYPE_TITLES[type]} (${entries.length}):`);
+    if (entries.length === 0) {
+      console.log("  (none)");
+    }
+    const width = Math.max(0, ...entries.map(({ value }) => value.length));
+    for (const { value, count } of entries) {
+      console.log(`  ${value.padEnd(width)}  ${count}`);
+    }
+    console.log();
+  }
+
+  return 0;
+}
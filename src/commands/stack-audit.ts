@@ -0,0 +1,181 @@
+import { searchStacks, updateStack } from "@immich/sdk";
+import { withRetry } from "../api/retry.ts";
+import type { CommandOption } from "../registry.ts";
+import {
+  chooseCover,
+  compileRegex,
+  stackCommandMeta,
+  toAssetData,
+  type AssetData,
+  type CoverSelection,
+} from "./stack.ts";
+
+const SHARED_OPTIONS = ["preset", "cover", "cover-strategy", "extension-priority", "verbose"];
+
+export const stackAuditCommandMeta = {
+  name: "stack-audit",
+  description: "Find stacks whose primary asset doesn't match the cover pattern",
+  options: [
+    ...stackCommandMeta.options.filter((option) => SHARED_OPTIONS.includes(option.name)),
+    {
+      name: "fix",
+      type: "boolean",
+      description: "Set the matching cover as the primary of each mismatched stack",
+    },
+  ] as CommandOption[],
+  examples: [
+    "immich-ts stack-audit --preset sony",
+    'immich-ts stack-audit --cover "\\.(jpg|jpeg)$" --cover-strategy resolution --fix',
+  ],
+};
+
+interface StackAuditOptions {
+  preset?: string;
+  coverPattern: string;
+  coverSelection: CoverSelection;
+  fix: boolean;
+  verbose: boolean;
+}
+
+export interface AuditedStack {
+  id: string;
+  primaryAssetId: string;
+  assets: AssetData[];
+}
+
+export interface PrimaryMismatch {
+  stackId: string;
+  current: AssetData;
+  expected: AssetData;
+  reason: string;
+}
+
+export interface StackAuditResult {
+  correct: number;
+  noCover: AuditedStack[];
+  mismatches: PrimaryMismatch[];
+}
+
+/**
+ * Checks every stack's primary against the cover pattern. Stacks whose primary
+ * matches are left alone even if another cover would rank higher; stacks with
+ * no matching asset can't be fixed and are reported separately.
+ */
+export function auditStacks(
+  stacks: AuditedStack[],
+  coverRegex: RegExp,
+  selection: CoverSelection,
+): StackAuditResult {
+  const result: StackAuditResult = { correct: 0, noCover: [], mismatches: [] };
+
+  for (const stack of stacks) {
+    const current = stack.assets.find((asset) => asset.id === stack.primaryAssetId);
+    if (current && coverRegex.test(current.originalFileName)) {
+      result.correct++;
+      continue;
+    }
+
+    const candidates = stack.assets.filter((asset) => coverRegex.test(asset.originalFileName));
+    if (!current || candidates.length === 0) {
+      result.noCover.push(stack);
+      continue;
+    }
+
+    const { cover, reason } = chooseCover(candidates, selection);
+    result.mismatches.push({ stackId: stack.id, current, expected: cover, reason });
+  }
+
+  return result;
+}
+
+function formatMismatch(mismatch: PrimaryMismatch): string {
+  return `${mismatch.current.originalFileName} -> ${mismatch.expected.originalFileName} [cover: ${mismatch.reason}]`;
+}
+
+export async function stackAudit(options: StackAuditOptions): Promise<number> {
+  const coverRegex = compileRegex(options.coverPattern, "cover");
+
+  console.log("\nImmich Stack Audit\n");
+  if (options.preset) console.log(`  Preset:         ${options.preset}`);
+  console.log(`  Cover pattern:  ${options.coverPattern}`);
+  if (options.coverSelection.strategy !== "last") {
+    const priority =
+      options.coverSelection.strategy === "extension"
+        ? ` (${options.coverSelection.extensionPriority.join(", ")})`
+        : "";
+    console.log(`  Cover strategy: ${options.coverSelection.strategy}${priority}`);
+  }
+  console.log(`  Fix:            ${options.fix ? "Yes" : "No"}`);
+  console.log();
+
+  console.log("Fetching stacks...");
+  const stacks = (await searchStacks({})).map((stack) => ({
+    id: stack.id,
+    primaryAssetId: stack.primaryAssetId,
+    assets: stack.assets.map(toAssetData),
+  }));
+  console.log(`  Found ${stacks.length} stacks\n`);
+
+  const result = auditStacks(stacks, coverRegex, options.coverSelection);
+
+  console.log("Results:");
+  console.log(`  Correct primary:    ${result.correct}`);
+  console.log(`  Wrong primary:      ${result.mismatches.length}`);
+  console.log(`  No cover match:     ${result.noCover.length}`);
+  console.log();
+
+  if (options.verbose && result.noCover.length > 0) {
+    console.log("Stacks without a cover match:");
+    for (const stack of result.noCover) {
+      console.log(`  ${stack.assets.map((asset) => asset.originalFileName).join(" + ")}`);
+    }
+    console.log();
+  }
+
+  if (result.mismatches.length === 0) {
+    console.log("No primaries to fix.\n");
+    return 0;
+  }
+
+  if (!options.fix) {
+    const shown = options.verbose ? result.mismatches : result.mismatches.slice(0, 20);
+    console.log("Wrong primaries:");
+    for (const mismatch of shown) {
+      console.log(`  ${formatMismatch(mismatch)}`);
+    }
+    if (shown.length < result.mismatches.length) {
+      console.log(`  ... and ${result.mismatches.length - shown.length} more`);
+    }
+    console.log("\nRun again with --fix to update these stacks.\n");
+    return 0;
+  }
+
+  console.log(`Fixing ${result.mismatches.length} stacks...\n`);
+  let fixed = 0;
+  for (const mismatch of result.mismatches) {
+    try {
+      await withRetry(
+        () =>
+          updateStack({
+            id: mismatch.stackId,
+            stackUpdateDto: { primaryAssetId: mismatch.expected.id },
+          }),
+        { retries: 3, baseDelayMs: 500 },
+      );
+      fixed++;
+      console.log(`  Fixed: ${formatMismatch(mismatch)}`);
+    } catch (err) {
+      console.error(
+        `  Failed to fix stack ${mismatch.stackId}: ${
+          err instanceof Error ? err.message : "Unknown error"
+        }`,
+      );
+    }
+  }
+
+  console.log("\nSummary:");
+  console.log(`  Stacks fixed:    ${fixed}`);
+  console.log(`  Failed:          ${result.mismatches.length - fixed}\n`);
+
+  return fixed === result.mismatches.length ? 0 : 1;
+}
@@ -0,0 +1,106 @@
+import { OptionError } from "../registry.ts";
+import type { ExistingStack, StackMember } from "./stack.ts";
+
+export interface ManifestStack {
+  id: string;
+  stem: string;
+  cover: StackMember;
+  members: StackMember[];
+  /**
+   * Stacks the user already had that `--existing extend` folded into this one
+   * or `--existing replace` deleted, so `unstack` can recreate them.
+   */
+  replacedStacks?: ExistingStack[];
+}
+
+export interface StackManifest {
+  version: 1;
+  createdAt: string;
+  stacks: ManifestStack[];
+  /**
+   * Stacks `--existing replace` deleted for a stack that then failed to be
+   * created, so `unstack` can recreate them.
+   */
+  deletedStacks?: ExistingStack[];
+}
+
+export function defaultManifestPath(date = new Date()): string {
+  return `stack-manifest-${date.toISOString().replace(/[:.]/g, "-")}.json`;
+}
+
+export async function writeStackManifest(
+  path: string,
+  stacks: ManifestStack[],
+  createdAt = new Date(),
+  deletedStacks: ExistingStack[] = [],
+): Promise<void> {
+  const manifest: StackManifest = {
+    version: 1,
+    createdAt: createdAt.toISOString(),
+    stacks,
+    ...(deletedStacks.length > 0 && { deletedStacks }),
+  };
+  await Bun.write(path, `${JSON.stringify(manifest, null, 2)}\n`);
+}
+
+function isExistingStackList(value: unknown): value is ExistingStack[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (stack: Partial<ExistingStack> | null) =>
+        typeof stack === "object" &&
+        stack !== null &&
+        typeof stack.id === "string" &&
+        typeof stack.primaryAssetId === "string" &&
+        Array.isArray(stack.assetIds) &&
+        stack.assetIds.every((assetId) => typeof assetId === "string"),
+    )
+  );
+}
+
+/** Parses and shape-checks a manifest written by a `stack` run. */
+export function parseStackManifest(text: string, source: string): StackManifest {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new OptionError(
+      `Invalid manifest ${source}: ${err instanceof Error ? err.message : "Unknown error"}`,
+    );
+  }
+
+  const manifest = data as StackManifest;
+  if (typeof manifest !== "object" || manifest === null || manifest.version !== 1) {
+    throw new OptionError(`Invalid manifest ${source}: unsupported or missing version`);
+  }
+  if (!Array.isArray(manifest.stacks)) {
+    throw new OptionError(`Invalid manifest ${source}: "stacks" must be an array`);
+  }
+  if (manifest.deletedStacks !== undefined && !isExistingStackList(manifest.deletedStacks)) {
+    throw new OptionError(`Invalid manifest ${source}: malformed "deletedStacks"`);
+  }
+
+  manifest.stacks.forEach((entry, index) => {
+    if (
+      typeof entry !== "object" ||
+      entry === null ||
+      typeof entry.id !== "string" ||
+      typeof entry.stem !== "string" ||
+      typeof entry.cover?.fileName !== "string" ||
+      !Array.isArray(entry.members) ||
+      (entry.replacedStacks !== undefined && !isExistingStackList(entry.replacedStacks))
+    ) {
+      throw new OptionError(`Invalid manifest ${source}: malformed entry at stacks[${index}]`);
+    }
+  });
+
+  return manifest;
+}
+
+export async function readStackManifest(path: string): Promise<StackManifest> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new OptionError(`Manifest not found: ${path}`);
+  }
+  return parseStackManifest(await file.text(), path);
+}
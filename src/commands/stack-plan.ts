@@ -0,0 +1,168 @@
+import { OptionError } from "../registry.ts";
+import {
+  EXISTING_STACK_POLICIES,
+  type ExistingStack,
+  type ExistingStackPolicy,
+  type StackGroup,
+  type StackMember,
+} from "./stack.ts";
+
+export interface StackPlanEntry {
+  stem: string;
+  reason: string;
+  cover: StackMember;
+  members: StackMember[];
+  existingStacks: ExistingStack[];
+}
+
+export interface StackPlan {
+  version: 1;
+  createdAt: string;
+  existingPolicy: ExistingStackPolicy;
+  stacks: StackPlanEntry[];
+}
+
+export function buildStackPlan(
+  groups: StackGroup[],
+  existingPolicy: ExistingStackPolicy,
+): StackPlan {
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    existingPolicy,
+    stacks: groups.map((group) => ({
+      stem: group.stem,
+      reason: group.coverReason
+        ? `${group.matchReason}; cover: ${group.coverReason}`
+        : group.matchReason,
+      cover: group.cover,
+      members: group.members,
+      existingStacks: group.existingStacks,
+    })),
+  };
+}
+
+export function planToGroups(plan: StackPlan): StackGroup[] {
+  return plan.stacks.map((entry) => ({
+    stem: entry.stem,
+    cover: entry.cover,
+    members: entry.members,
+    existingStacks: entry.existingStacks,
+    matchReason: entry.reason,
+  }));
+}
+
+export async function writeStackPlan(path: string, plan: StackPlan): Promise<void> {
+  await Bun.write(path, `${JSON.stringify(plan, null, 2)}\n`);
+}
+
+function isMember(value: unknown): value is StackMember {
+  const member = value as StackMember;
+  return (
+    typeof member === "object" &&
+    member !== null &&
+    typeof member.assetId === "string" &&
+    typeof member.fileName === "string"
+  );
+}
+
+function isExistingStack(value: unknown): value is ExistingStack {
+  const existing = value as ExistingStack;
+  return (
+    typeof existing === "object" &&
+    existing !== null &&
+    typeof existing.id === "string" &&
+    typeof existing.primaryAssetId === "string" &&
+    Array.isArray(existing.assetIds) &&
+    existing.assetIds.every((id) => typeof id === "string")
+  );
+}
+
+/** Parses and shape-checks a plan file written by --plan-out. */
+export function parseStackPlan(text: string, source: string): StackPlan {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new OptionError(
+      `Invalid plan file ${source}: ${err instanceof Error ? err.message : "Unknown error"}`,
+    );
+  }
+
+  const plan = data as StackPlan;
+  if (typeof plan !== "object" || plan === null || plan.version !== 1) {
+    throw new OptionError(`Invalid plan file ${source}: unsupported or missing version`);
+  }
+  if (!EXISTING_STACK_POLICIES.includes(plan.existingPolicy)) {
+    throw new OptionError(`Invalid plan file ${source}: unknown existingPolicy`);
+  }
+  if (!Array.isArray(plan.stacks)) {
+    throw new OptionError(`Invalid plan file ${source}: "stacks" must be an array`);
+  }
+
+  plan.stacks.forEach((entry, index) => {
+    const valid =
+      typeof entry === "object" &&
+      entry !== null &&
+      typeof entry.stem === "string" &&
+      typeof entry.reason === "string" &&
+      isMember(entry.cover) &&
+      Array.isArray(entry.members) &&
+      entry.members.length > 0 &&
+      entry.members.every(isMember) &&
+      Array.isArray(entry.existingStacks) &&
+      entry.existingStacks.every(isExistingStack);
+    if (!valid) {
+      throw new OptionError(`Invalid plan file ${source}: malformed entry at stacks[${index}]`);
+    }
+  });
+
+  return plan;
+}
+
+export async function readStackPlan(path: string): Promise<StackPlan> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new OptionError(`Plan file not found: ${path}`);
+  }
+  return parseStackPlan(await file.text(), path);
+}
+
+/**
+ * Compares a plan with the current server state. Every asset must still exist
+ * and sit in exactly the stack the plan recorded for it (or in none).
+ */
+export function findPlanConflicts(
+  plan: StackPlan,
+  missingAssetIds: Set<string>,
+  stacksByAssetId: Map<string, ExistingStack>,
+): string[] {
+  const conflicts: string[] = [];
+
+  for (const entry of plan.stacks) {
+    const recordedStackIds = new Map<string, string>();
+    for (const existing of entry.existingStacks) {
+      for (const assetId of existing.assetIds) {
+        recordedStackIds.set(assetId, existing.id);
+      }
+    }
+
+    for (const member of [entry.cover, ...entry.members]) {
+      if (missingAssetIds.has(member.assetId)) {
+        conflicts.push(`${entry.stem}: "${member.fileName}" no longer exists`);
+        continue;
+      }
+
+      const currentStackId = stacksByAssetId.get(member.assetId)?.id;
+      if (currentStackId !== recordedStackIds.get(member.assetId)) {
+        conflicts.push(
+          currentStackId
+            ? `${entry.stem}: "${member.fileName}" is already in stack ${currentStackId}`
+            : `${entry.stem}: "${member.fileName}" is no longer in its planned stack`,
+        );
+      }
+    }
+  }
+
+  return conflicts;
+}
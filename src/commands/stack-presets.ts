@@ -0,0 +1,132 @@
+import { OptionError } from "../registry.ts";
+
+export interface StackPreset {
+  name: string;
+  description: string;
+  cover: string;
+  raw: string;
+  stemPattern: string;
+  example: string;
+}
+
+export const STACK_PRESETS: StackPreset[] = [
+  {
+    name: "pixel",
+    description: "Google Pixel RAW mode (.RAW-01.MP.COVER.jpg + .RAW-02.ORIGINAL.dng)",
+    cover: "^PXL_.*\\.(jpg|JPG|jpeg|JPEG)$",
+    raw: "^PXL_.*\\.(dng|DNG)$",
+    stemPattern: "^(PXL_\\d{8}_\\d+)",
+    example:
+      "PXL_20240115_143022123.RAW-01.MP.COVER.jpg + PXL_20240115_143022123.RAW-02.ORIGINAL.dng",
+  },
+  {
+    name: "iphone-proraw",
+    // The counter wraps every 10,000 shots, so only --capture-window keeps
+    // IMG_1234 files from different years apart.
+    description:
+      "iPhone ProRAW with HEIC/JPEG companions, including edited IMG_E copies " +
+      "(the counter repeats; use --capture-window across years)",
+    cover: "^IMG_E?\\d{4}\\.(HEIC|heic|JPG|jpg|JPEG|jpeg)$",
+    raw: "^IMG_\\d{4}\\.(DNG|dng)$",
+    stemPattern: "^IMG_E?(\\d{4})\\.",
+    example: "IMG_1234.HEIC + IMG_1234.DNG",
+  },
+  {
+    name: "sony",
+    description: "Sony ARW with JPEG or HEIF",
+    cover: "\\.(JPG|jpg|JPEG|jpeg|HIF|hif)$",
+    raw: "\\.(ARW|arw)$",
+    stemPattern: "^([^.]+)\\.",
+    example: "DSC01234.JPG + DSC01234.ARW",
+  },
+  {
+    name: "fuji",
+    description: "Fujifilm RAF with HEIF or JPEG",
+    cover: "\\.(HIF|hif|HEIF|heif|JPG|jpg|JPEG|jpeg)$",
+    raw: "\\.(RAF|raf)$",
+    stemPattern: "^([^.]+)\\.",
+    example: "DSCF1234.HIF + DSCF1234.RAF",
+  },
+  {
+    name: "canon",
+    description: "Canon CR3 with JPEG or HEIF",
+    cover: "\\.(JPG|jpg|JPEG|jpeg|HIF|hif)$",
+    raw: "\\.(CR3|cr3)$",
+    stemPattern: "^([^.]+)\\.",
+    example: "IMG_1234.JPG + IMG_1234.CR3",
+  },
+];
+
+export function getStackPreset(name: string): StackPreset | undefined {
+  return STACK_PRESETS.find((preset) => preset.name === name);
+}
+
+export interface StackPatterns {
+  coverPattern: string;
+  rawPattern: string;
+  stemPattern?: string;
+}
+
+function requirePreset(name?: string): StackPreset | undefined {
+  if (name === undefined) return undefined;
+
+  const preset = getStackPreset(name);
+  if (!preset) {
+    throw new OptionError(
+      `Unknown preset: "${name}". Available presets: ${STACK_PRESETS.map((p) => p.name).join(", ")}`,
+    );
+  }
+  return preset;
+}
+
+/**
+ * Combines a preset with explicit pattern flags. Explicit flags always win, so
+ * a preset can be used as a starting point and adjusted one pattern at a time.
+ */
+export function resolveStackPatterns(options: {
+  preset?: string;
+  cover?: string;
+  raw?: string;
+  stemPattern?: string;
+}): StackPatterns {
+  const preset = requirePreset(options.preset);
+  const coverPattern = options.cover ?? preset?.cover;
+  const rawPattern = options.raw ?? preset?.raw;
+
+  if (coverPattern === undefined) {
+    throw new OptionError("Missing required option: --cover (or use --preset)");
+  }
+  if (rawPattern === undefined) {
+    throw new OptionError("Missing required option: --raw (or use --preset)");
+  }
+
+  return {
+    coverPattern,
+    rawPattern,
+    stemPattern: options.stemPattern ?? preset?.stemPattern,
+  };
+}
+
+/** Like resolveStackPatterns, for commands that only need the cover pattern. */
+export function resolveCoverPattern(options: { preset?: string; cover?: string }): string {
+  const coverPattern = options.cover ?? requirePreset(options.preset)?.cover;
+  if (coverPattern === undefined) {
+    throw new OptionError("Missing required option: --cover (or use --preset)");
+  }
+  return coverPattern;
+}
+
+export function listStackPresets(): number {
+  console.log("\nStack presets:\n");
+  for (const preset of STACK_PRESETS) {
+    console.log(`  ${preset.name}`);
+    console.log(`    ${preset.description}`);
+    console.log(`    Cover pattern:  ${preset.cover}`);
+    console.log(`    Raw pattern:    ${preset.raw}`);
+    console.log(`    Stem pattern:   ${preset.stemPattern}`);
+    console.log(`    Example:        ${preset.example}`);
+    console.log();
+  }
+
+  return 0;
+}
@@ -1,29 +1,58 @@
 import {
   searchAssets,
-  getAlbumInfo,
+  searchStacks,
   createStack,
+  deleteStacks,
+  getAssetInfo,
+  AssetTypeEnum,
   AssetVisibility,
   type AssetResponseDto,
+  type MetadataSearchDto,
+  type StackResponseDto,
 } from "@immich/sdk";
-import type { CommandOption } from "../registry.ts";
+import { resolveAlbumIds, resolvePersonIds, resolveTagIds } from "../api/lookup.ts";
+import { runWithConcurrency, withRetry } from "../api/retry.ts";
+import { parseDateRange } from "../dates.ts";
+import { OptionError, type CommandOption } from "../registry.ts";
+import {
+  defaultManifestPath,
+  writeStackManifest,
+  type ManifestStack,
+} from "./stack-manifest.ts";
+import {
+  buildStackPlan,
+  findPlanConflicts,
+  planToGroups,
+  readStackPlan,
+  writeStackPlan,
+} from "./stack-plan.ts";
 
 export const stackCommandMeta = {
   name: "stack",
   description:
-    "Stack RAW+JPG pairs created by Google Pixel phones and other cameras",
+    "Stack RAW+JPG files created by Google Pixel phones and other cameras",
   options: [
+    {
+      name: "preset",
+      type: "string",
+      description: "Camera preset for --cover, --raw and --stem-pattern",
+      placeholder: "name",
+    },
+    {
+      name: "list-presets",
+      type: "boolean",
+      description: "List camera presets and their patterns",
+    },
     {
       name: "cover",
       type: "string",
-      required: true,
-      description: "Regex pattern for cover/primary images",
+      description: "Regex pattern for cover/primary images (required without --preset)",
       placeholder: "regex",
     },
     {
       name: "raw",
       type: "string",
-      required: true,
-      description: "Regex pattern for RAW/secondary images",
+      description: "Regex pattern for RAW/secondary images (required without --preset)",
       placeholder: "regex",
     },
     {
@@ -32,28 +61,165 @@ export const stackCommandMeta = {
       description: "Regex with capture group to extract matching stem",
       placeholder: "regex",
     },
+    {
+      name: "cover-strategy",
+      type: "string",
+      description:
+        "Pick the cover among several matches: last, resolution, size, favorite, edited, extension (default: last)",
+      placeholder: "strategy",
+    },
+    {
+      name: "extension-priority",
+      type: "string",
+      description: "Comma-separated extensions for --cover-strategy extension, e.g. heic,jpg,png",
+      placeholder: "list",
+    },
+    {
+      name: "any-directory",
+      type: "boolean",
+      description: "Allow stem matches across directories (default: same directory only)",
+    },
+    {
+      name: "capture-window",
+      type: "string",
+      description: "Only stem-match files captured within this many hours of the cover",
+      placeholder: "hours",
+    },
+    {
+      name: "match",
+      type: "string",
+      description:
+        "Group by filename stem, capture time or shot sequence: stem, time, sequence (default: stem)",
+      placeholder: "mode",
+    },
+    {
+      name: "time-tolerance",
+      type: "string",
+      description: "Max capture time difference for --match time (default: 1000)",
+      placeholder: "ms",
+    },
+    {
+      name: "same-camera",
+      type: "boolean",
+      description: "With --match time, require the same camera make and model",
+    },
+    {
+      name: "sequence-gap",
+      type: "string",
+      description: "Max time between consecutive frames for --match sequence (default: 1000)",
+      placeholder: "ms",
+    },
+    {
+      name: "sequence-min",
+      type: "string",
+      description: "Min frames in a sequence for --match sequence, at least 2 (default: 3)",
+      placeholder: "count",
+    },
+    {
+      name: "bracket-only",
+      type: "boolean",
+      description: "With --match sequence, only keep sequences with differing exposures",
+    },
+    {
+      name: "sequence-cover",
+      type: "string",
+      description: "Sequence cover: middle, first or favorite (default: middle)",
+      placeholder: "rule",
+    },
+    {
+      name: "existing",
+      type: "string",
+      description:
+        "Assets already in a stack: skip, extend or replace (default: skip)",
+      placeholder: "policy",
+    },
     {
       name: "dry-run",
       type: "boolean",
-      description: "Preview pairs without creating stacks",
+      description: "Preview stacks without creating them",
+    },
+    {
+      name: "plan-out",
+      type: "string",
+      description: "Write the stacks that would be created to a plan file (JSON)",
+      placeholder: "file",
+    },
+    {
+      name: "concurrency",
+      type: "string",
+      description: "Number of stacks to create in parallel (default: 4)",
+      placeholder: "count",
+    },
+    {
+      name: "retries",
+      type: "string",
+      description:
+        "Retries for server errors and dropped connections, with exponential backoff (default: 3)",
+      placeholder: "count",
+    },
+    {
+      name: "manifest",
+      type: "string",
+      description:
+        "Where to write the manifest of created stacks (default: stack-manifest-<time>.json)",
+      placeholder: "file",
+    },
+    {
+      name: "apply",
+      type: "string",
+      description: "Create exactly the stacks in a plan file written by --plan-out",
+      placeholder: "file",
     },
     {
       name: "after",
       type: "string",
-      description: "Only process assets after this date (ISO format)",
+      description: "Only process assets taken on or after this date (see DATES)",
       placeholder: "date",
     },
     {
       name: "before",
       type: "string",
-      description: "Only process assets before this date (ISO format)",
+      description: "Only process assets taken on or before this date (see DATES)",
       placeholder: "date",
     },
     {
       name: "album",
       type: "string",
-      description: "Only process assets in this album",
-      placeholder: "id",
+      multiple: true,
+      description: "Only process assets in this album, by ID or name (repeatable)",
+      placeholder: "album",
+    },
+    {
+      name: "person",
+      type: "string",
+      multiple: true,
+      description: "Only process assets with this person, by ID or name (repeatable)",
+      placeholder: "name",
+    },
+    {
+      name: "tag",
+      type: "string",
+      multiple: true,
+      description: "Only process assets with this tag, by ID, name or value (repeatable)",
+      placeholder: "tag",
+    },
+    {
+      name: "camera-make",
+      type: "string",
+      description: "Only process assets from this camera make",
+      placeholder: "make",
+    },
+    {
+      name: "camera-model",
+      type: "string",
+      description: "Only process assets from this camera model",
+      placeholder: "model",
+    },
+    {
+      name: "path",
+      type: "string",
+      description: "Only process assets whose original path starts with this prefix",
+      placeholder: "prefix",
     },
     {
       name: "verbose",
@@ -63,55 +229,193 @@ export const stackCommandMeta = {
   ] as CommandOption[],
   examples: [
     'immich-ts stack --cover "\\.(jpg|jpeg)$" --raw "\\.dng$" --dry-run',
+    "immich-ts stack --preset pixel --dry-run",
+    'immich-ts stack --cover "\\.(heic|jpg)$" --raw "\\.dng$" --cover-strategy extension --extension-priority heic,jpg',
     'immich-ts stack --cover "\\.jpg$" --raw "\\.dng$" --album abc123',
+    'immich-ts stack --preset sony --album "Iceland 2024" --camera-model ILCE-7M4 --path /mnt/photos/2024/',
+    'immich-ts stack --cover "\\.jpg$" --raw "\\.dng$" --existing extend',
+    'immich-ts stack --cover "\\.jpg$" --raw "\\.arw$" --match time --time-tolerance 2000 --same-camera',
+    "immich-ts stack --match sequence --sequence-gap 500 --bracket-only --dry-run",
+    "immich-ts stack --preset pixel --dry-run --plan-out plan.json",
+    "immich-ts stack --apply plan.json",
   ],
 };
 
+export const EXISTING_STACK_POLICIES = ["skip", "extend", "replace"] as const;
+
+export type ExistingStackPolicy = (typeof EXISTING_STACK_POLICIES)[number];
+
+export const MATCH_MODES = ["stem", "time", "sequence"] as const;
+
+export type MatchMode = (typeof MATCH_MODES)[number];
+
+export const SEQUENCE_COVER_RULES = ["middle", "first", "favorite"] as const;
+
+export type SequenceCoverRule = (typeof SEQUENCE_COVER_RULES)[number];
+
+export const COVER_STRATEGIES = [
+  "last",
+  "resolution",
+  "size",
+  "favorite",
+  "edited",
+  "extension",
+] as const;
+
+export type CoverStrategy = (typeof COVER_STRATEGIES)[number];
+
+export interface CoverSelection {
+  strategy: CoverStrategy;
+  extensionPriority: string[];
+}
+
+export interface SequenceOptions {
+  gapMs: number;
+  minFrames: number;
+  bracketOnly: boolean;
+  coverRule: SequenceCoverRule;
+  verbose: boolean;
+}
+
 interface StackOptions {
-  coverPattern: string;
-  rawPattern: string;
+  preset?: string;
+  coverPattern?: string;
+  rawPattern?: string;
   stemPattern?: string;
+  matchMode: MatchMode;
+  timeToleranceMs: number;
+  sameCamera: boolean;
+  sequence: Omit<SequenceOptions, "verbose">;
+  coverSelection: CoverSelection;
+  anyDirectory: boolean;
+  captureWindowMs?: number;
+  existingPolicy: ExistingStackPolicy;
   dryRun: boolean;
+  planOut?: string;
+  manifestPath?: string;
+  creation: CreateStacksOptions;
   after?: string;
   before?: string;
-  albumId?: string;
+  /** Time zone for plain and relative dates (default: local). */
+  timeZone?: string;
+  scope: AssetScope;
   verbose: boolean;
 }
 
-interface AssetPair {
-  coverAssetId: string;
-  coverFileName: string;
-  rawAssetId: string;
-  rawFileName: string;
+export interface AssetScope {
+  albums: string[];
+  people: string[];
+  tags: string[];
+  cameraMake?: string;
+  cameraModel?: string;
+  pathPrefix?: string;
+}
+
+export interface StackMember {
+  assetId: string;
+  fileName: string;
+}
+
+export interface ExistingStack {
+  id: string;
+  primaryAssetId: string;
+  assetIds: string[];
+}
+
+export interface StackGroup {
   stem: string;
+  cover: StackMember;
+  members: StackMember[];
+  existingStacks: ExistingStack[];
+  matchReason: string;
+  coverReason?: string;
 }
 
 interface StackingResult {
-  pairs: AssetPair[];
+  groups: StackGroup[];
   skippedNoMatch: number;
-  stacksCreated: number;
+  skippedAlreadyStacked: number;
+  skippedCollision: number;
 }
 
-interface AssetData {
+export interface AssetData {
   id: string;
   originalFileName: string;
+  originalPath?: string;
+  type?: AssetTypeEnum;
+  takenAt?: string;
+  /** EXIF capture time; unlike `takenAt`, it never falls back to the file date. */
+  dateTimeOriginal?: string | null;
+  make?: string | null;
+  model?: string | null;
+  exposureTime?: string | null;
+  isFavorite?: boolean;
+  width?: number | null;
+  height?: number | null;
+  fileSize?: number | null;
 }
 
-function parseDate(dateStr?: string): string | undefined {
-  if (!dateStr) return undefined;
-  const date = new Date(dateStr);
-  if (isNaN(date.getTime())) {
-    throw new Error(
-      `Invalid date format: ${dateStr}. Use ISO format (YYYY-MM-DD)`,
-    );
-  }
-  return date.toISOString();
+export function toAssetData(asset: AssetResponseDto): AssetData {
+  return {
+    id: asset.id,
+    originalFileName: asset.originalFileName,
+    originalPath: asset.originalPath,
+    type: asset.type,
+    takenAt: asset.exifInfo?.dateTimeOriginal ?? asset.fileCreatedAt,
+    dateTimeOriginal: asset.exifInfo?.dateTimeOriginal,
+    make: asset.exifInfo?.make,
+    model: asset.exifInfo?.model,
+    exposureTime: asset.exifInfo?.exposureTime,
+    isFavorite: asset.isFavorite,
+    width: asset.exifInfo?.exifImageWidth ?? asset.width,
+    height: asset.exifInfo?.exifImageHeight ?? asset.height,
+    fileSize: asset.exifInfo?.fileSizeInByte,
+  };
 }
 
-async function fetchAssets(options: {
+interface AssetFetchOptions {
   takenAfter?: string;
   takenBefore?: string;
-}): Promise<AssetData[]> {
+  albumIds: string[];
+  personIds: string[];
+  tagIds: string[];
+  make?: string;
+  model?: string;
+  pathPrefix?: string;
+}
+
+/**
+ * Builds one page of the asset search. Stacked assets are included so that
+ * `--existing extend` and `replace` see the stacks a new file belongs with.
+ */
+export function buildAssetSearch(
+  options: AssetFetchOptions,
+  page: number,
+  size: number,
+): MetadataSearchDto {
+  return {
+    page,
+    size,
+    visibility: AssetVisibility.Timeline,
+    takenAfter: options.takenAfter,
+    takenBefore: options.takenBefore,
+    ...(options.albumIds.length > 0 && { albumIds: options.albumIds }),
+    ...(options.personIds.length > 0 && { personIds: options.personIds }),
+    ...(options.tagIds.length > 0 && { tagIds: options.tagIds }),
+    make: options.make,
+    model: options.model,
+    originalPath: options.pathPrefix,
+    withStacked: true,
+    withExif: true,
+  };
+}
+
+/**
+ * Fetches every timeline asset matching all scope filters. Album, person and
+ * tag filters are intersections on the server; the path prefix is narrowed
+ * again locally because the server matches it anywhere in the path.
+ */
+async function fetchAssets(options: AssetFetchOptions): Promise<AssetData[]> {
   const result: AssetData[] = [];
   let page = 1;
   const size = 1000;
@@ -119,23 +423,16 @@ async function fetchAssets(options: {
 
   while (hasMore) {
     const response = await searchAssets({
-      metadataSearchDto: {
-        page,
-        size,
-        visibility: AssetVisibility.Timeline,
-        takenAfter: options.takenAfter,
-        takenBefore: options.takenBefore,
-        withStacked: false,
-      },
+      metadataSearchDto: buildAssetSearch(options, page, size),
     });
 
     const assets = response.assets.items;
 
     for (const asset of assets) {
-      result.push({
-        id: asset.id,
-        originalFileName: asset.originalFileName,
-      });
+      if (options.pathPrefix && !asset.originalPath.startsWith(options.pathPrefix)) {
+        continue;
+      }
+      result.push(toAssetData(asset));
     }
 
     if (assets.length < size) {
@@ -148,12 +445,50 @@ async function fetchAssets(options: {
   return result;
 }
 
-async function fetchAlbumAssets(albumId: string): Promise<AssetData[]> {
-  const album = await getAlbumInfo({ id: albumId });
-  return (album.assets ?? []).map((a: AssetResponseDto) => ({
-    id: a.id,
-    originalFileName: a.originalFileName,
-  }));
+async function fetchExistingStacks(): Promise<Map<string, ExistingStack>> {
+  return indexStacks(await searchStacks({}));
+}
+
+/** Maps every stacked asset to its stack. */
+export function indexStacks(
+  stacks: Pick<StackResponseDto, "id" | "primaryAssetId" | "assets">[],
+): Map<string, ExistingStack> {
+  const stacksByAssetId = new Map<string, ExistingStack>();
+
+  for (const stack of stacks) {
+    const existing: ExistingStack = {
+      id: stack.id,
+      primaryAssetId: stack.primaryAssetId,
+      assetIds: stack.assets.map((asset) => asset.id),
+    };
+    for (const assetId of existing.assetIds) {
+      stacksByAssetId.set(assetId, existing);
+    }
+  }
+
+  return stacksByAssetId;
+}
+
+/** Returns the IDs that no longer resolve to an asset, counting trashed assets as gone. */
+async function findMissingAssetIds(assetIds: string[]): Promise<Set<string>> {
+  const missing = new Set<string>();
+  const batchSize = 20;
+
+  for (let i = 0; i < assetIds.length; i += batchSize) {
+    const batch = assetIds.slice(i, i + batchSize);
+    await Promise.all(
+      batch.map(async (id) => {
+        try {
+          const asset = await getAssetInfo({ id });
+          if (asset.isTrashed) missing.add(id);
+        } catch {
+          missing.add(id);
+        }
+      }),
+    );
+  }
+
+  return missing;
 }
 
 function getFileStem(
@@ -171,63 +506,179 @@ function getFileStem(
   return fileName.substring(0, lastDot);
 }
 
-async function findMatchingPairs(
+const EDITED_FILE_PATTERN = /([-_ ]edit(ed)?|\(edited\))\.[^.]+$|^IMG_E\d/i;
+
+function getExtension(fileName: string): string {
+  const lastDot = fileName.lastIndexOf(".");
+  return lastDot === -1 ? "" : fileName.substring(lastDot + 1).toLowerCase();
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function pickBest(
+  candidates: AssetData[],
+  score: (asset: AssetData) => number | undefined,
+): AssetData | undefined {
+  let best: AssetData | undefined;
+  let bestScore = -Infinity;
+
+  for (const asset of candidates) {
+    const value = score(asset);
+    if (value !== undefined && !isNaN(value) && value >= bestScore) {
+      best = asset;
+      bestScore = value;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Picks the primary asset among several cover candidates. Ties, and strategies
+ * that find nothing to rank, fall back to the last match.
+ */
+export function chooseCover(
+  candidates: AssetData[],
+  selection: CoverSelection,
+): { cover: AssetData; reason: string } {
+  const last = candidates[candidates.length - 1]!;
+  const fallback = { cover: last, reason: "last match" };
+
+  switch (selection.strategy) {
+    case "resolution": {
+      const best = pickBest(candidates, (asset) =>
+        asset.width && asset.height ? asset.width * asset.height : undefined,
+      );
+      return best
+        ? { cover: best, reason: `highest resolution, ${best.width}x${best.height}` }
+        : fallback;
+    }
+    case "size": {
+      const best = pickBest(candidates, (asset) => asset.fileSize ?? undefined);
+      return best
+        ? { cover: best, reason: `largest file, ${formatBytes(best.fileSize!)}` }
+        : fallback;
+    }
+    case "favorite": {
+      const best = pickBest(candidates, (asset) => (asset.isFavorite ? 1 : undefined));
+      return best ? { cover: best, reason: "favorited" } : fallback;
+    }
+    case "edited": {
+      const best = pickBest(candidates, (asset) =>
+        EDITED_FILE_PATTERN.test(asset.originalFileName) ? 1 : undefined,
+      );
+      return best ? { cover: best, reason: "edited copy" } : fallback;
+    }
+    case "extension": {
+      const priority = selection.extensionPriority;
+      const best = pickBest(candidates, (asset) => {
+        const index = priority.indexOf(getExtension(asset.originalFileName));
+        return index === -1 ? undefined : priority.length - index;
+      });
+      return best
+        ? {
+            cover: best,
+            reason: `extension priority, .${getExtension(best.originalFileName)}`,
+          }
+        : fallback;
+    }
+    default:
+      return fallback;
+  }
+}
+
+export interface StemMatchOptions {
+  coverPattern: RegExp;
+  rawPattern: RegExp;
+  stemPattern?: RegExp;
+  coverSelection: CoverSelection;
+  sameDirectory: boolean;
+  captureWindowMs?: number;
+  verbose: boolean;
+}
+
+function getDirectory(path?: string): string {
+  if (!path) return "";
+  const lastSlash = Math.max(path.lastIndexOf("/"), path.lastIndexOf("\\"));
+  return lastSlash === -1 ? "" : path.substring(0, lastSlash);
+}
+
+function isWithinWindow(
+  a: AssetData,
+  b: AssetData,
+  windowMs: number | undefined,
+): boolean {
+  if (windowMs === undefined || !a.takenAt || !b.takenAt) return true;
+  const diff = Math.abs(new Date(a.takenAt).getTime() - new Date(b.takenAt).getTime());
+  return isNaN(diff) || diff <= windowMs;
+}
+
+export async function findStackGroups(
   assets: AssetData[],
-  coverPattern: RegExp,
-  rawPattern: RegExp,
-  stemPattern: RegExp | undefined,
-  verbose: boolean,
+  options: StemMatchOptions,
 ): Promise<StackingResult> {
-  const stemToAssets = new Map<string, { cover?: string; raw: string[] }>();
-  const assetDetails = new Map<string, { fileName: string }>();
+  const entries = new Map<
+    string,
+    { stem: string; directory: string; covers: AssetData[]; raw: AssetData[] }
+  >();
+  const directoriesByStem = new Map<
+    string,
+    { directories: Set<string>; hasCover: boolean; hasRaw: boolean }
+  >();
   const total = assets.length;
-  const verboseLog = verbose
+  const verboseLog = options.verbose
     ? (msg: string) => console.log(`  ${msg}`)
     : () => {};
 
   const stemPatternMismatches = new Set<string>();
-  const warnOnNoMatch = stemPattern
+  const warnOnNoMatch = options.stemPattern
     ? (fileName: string) => stemPatternMismatches.add(fileName)
     : undefined;
 
-  const replacedCovers: Array<{
+  const coverDecisions: Array<{
     stem: string;
-    oldFile: string;
-    newFile: string;
+    coverFile: string;
+    candidates: number;
+    reason: string;
   }> = [];
+  const collisions: Array<{ stem: string; fileName: string; reason: string }> = [];
 
   console.log(`  Processing ${total} assets...`);
 
   for (const asset of assets) {
     const stem = getFileStem(
       asset.originalFileName,
-      stemPattern,
+      options.stemPattern,
       warnOnNoMatch,
     );
-    const isCover = coverPattern.test(asset.originalFileName);
-    const isRaw = rawPattern.test(asset.originalFileName);
+    const isCover = options.coverPattern.test(asset.originalFileName);
+    const isRaw = !isCover && options.rawPattern.test(asset.originalFileName);
+    if (!isCover && !isRaw) continue;
 
-    assetDetails.set(asset.id, {
-      fileName: asset.originalFileName,
-    });
+    const directory = options.sameDirectory ? getDirectory(asset.originalPath) : "";
+    const key = `${directory}\u0000${stem}`;
 
-    if (!stemToAssets.has(stem)) {
-      stemToAssets.set(stem, { cover: undefined, raw: [] });
+    if (!entries.has(key)) {
+      entries.set(key, { stem, directory, covers: [], raw: [] });
     }
-    const entry = stemToAssets.get(stem)!;
+    const entry = entries.get(key)!;
+
+    const stemInfo = directoriesByStem.get(stem) ?? {
+      directories: new Set<string>(),
+      hasCover: false,
+      hasRaw: false,
+    };
+    stemInfo.directories.add(directory);
+    stemInfo.hasCover ||= isCover;
+    stemInfo.hasRaw ||= isRaw;
+    directoriesByStem.set(stem, stemInfo);
 
     if (isCover) {
-      if (entry.cover) {
-        const oldCoverFileName = assetDetails.get(entry.cover)!.fileName;
-        replacedCovers.push({
-          stem,
-          oldFile: oldCoverFileName,
-          newFile: asset.originalFileName,
-        });
-      }
-      entry.cover = asset.id;
-    } else if (isRaw) {
-      entry.raw.push(asset.id);
+      entry.covers.push(asset);
+    } else {
+      entry.raw.push(asset);
     }
   }
 
@@ -236,7 +687,7 @@ async function findMatchingPairs(
       `  Warning: --stem-pattern did not match ${stemPatternMismatches.size} file(s). ` +
         `Using default stem extraction for these files.`,
     );
-    if (verbose) {
+    if (options.verbose) {
       for (const fileName of Array.from(stemPatternMismatches).slice(0, 10)) {
         console.warn(`    - ${fileName}`);
       }
@@ -246,81 +697,651 @@ async function findMatchingPairs(
     }
   }
 
-  if (replacedCovers.length > 0) {
+  const groups: StackGroup[] = [];
+  let skippedNoMatch = 0;
+
+  verboseLog(`Analyzing ${entries.size} filename groups...`);
+
+  for (const { stem, directory, covers, raw } of entries.values()) {
+    const stemInfo = directoriesByStem.get(stem)!;
+    const splitByDirectory =
+      stemInfo.directories.size > 1 && stemInfo.hasCover && stemInfo.hasRaw;
+
+    if (covers.length === 0 || raw.length === 0) {
+      if (splitByDirectory) {
+        for (const asset of [...covers, ...raw]) {
+          collisions.push({
+            stem,
+            fileName: asset.originalFileName,
+            reason: "matching files are in a different directory",
+          });
+        }
+      } else {
+        skippedNoMatch += covers.length + raw.length;
+      }
+      continue;
+    }
+
+    const { cover, reason } = chooseCover(covers, options.coverSelection);
+    const candidates = [...raw, ...covers.filter((asset) => asset !== cover)];
+    const members = candidates.filter((asset) =>
+      isWithinWindow(cover, asset, options.captureWindowMs),
+    );
+
+    for (const asset of candidates) {
+      if (!members.includes(asset)) {
+        collisions.push({
+          stem,
+          fileName: asset.originalFileName,
+          reason: `captured too far from "${cover.originalFileName}"`,
+        });
+      }
+    }
+
+    if (!members.some((asset) => raw.includes(asset))) {
+      collisions.push({
+        stem,
+        fileName: cover.originalFileName,
+        reason: "no secondary file within the capture window",
+      });
+      continue;
+    }
+
+    if (covers.length > 1) {
+      coverDecisions.push({
+        stem,
+        coverFile: cover.originalFileName,
+        candidates: covers.length,
+        reason,
+      });
+    }
+
+    groups.push({
+      stem,
+      cover: { assetId: cover.id, fileName: cover.originalFileName },
+      members: members.map((asset) => ({
+        assetId: asset.id,
+        fileName: asset.originalFileName,
+      })),
+      existingStacks: [],
+      matchReason: directory ? `same stem "${stem}" in ${directory}` : `same stem "${stem}"`,
+      coverReason: covers.length > 1 ? reason : undefined,
+    });
+  }
+
+  if (coverDecisions.length > 0) {
     console.warn(
-      `  Warning: ${replacedCovers.length} stem(s) had multiple cover matches. ` +
-        `Only the last match will be used as the cover.`,
+      `  Warning: ${coverDecisions.length} stem(s) had multiple cover matches. ` +
+        `The cover was chosen by the "${options.coverSelection.strategy}" strategy; the others are added as secondary assets.`,
     );
-    if (verbose) {
-      for (const { stem, oldFile, newFile } of replacedCovers.slice(0, 10)) {
-        console.warn(`    - ${stem}: "${oldFile}" replaced by "${newFile}"`);
+    if (options.verbose) {
+      for (const { stem, coverFile, candidates, reason } of coverDecisions.slice(0, 10)) {
+        console.warn(
+          `    - ${stem}: "${coverFile}" chosen from ${candidates} candidates (${reason})`,
+        );
       }
-      if (replacedCovers.length > 10) {
-        console.warn(`    ... and ${replacedCovers.length - 10} more`);
+      if (coverDecisions.length > 10) {
+        console.warn(`    ... and ${coverDecisions.length - 10} more`);
       }
     }
   }
 
-  const pairs: AssetPair[] = [];
-  let skippedNoMatch = 0;
+  if (collisions.length > 0) {
+    console.warn(
+      `  Warning: ${collisions.length} file(s) share a stem with files from another directory or capture date. ` +
+        `They were not stacked.`,
+    );
+    if (options.verbose) {
+      for (const { stem, fileName, reason } of collisions.slice(0, 10)) {
+        console.warn(`    - ${stem}: "${fileName}" ${reason}`);
+      }
+      if (collisions.length > 10) {
+        console.warn(`    ... and ${collisions.length - 10} more`);
+      }
+    }
+  }
 
-  verboseLog(`Analyzing ${stemToAssets.size} filename groups...`);
+  return {
+    groups,
+    skippedNoMatch,
+    skippedAlreadyStacked: 0,
+    skippedCollision: collisions.length,
+  };
+}
 
-  for (const [stem, stemAssets] of stemToAssets) {
-    if (stemAssets.cover && stemAssets.raw.length > 0) {
-      for (const rawId of stemAssets.raw) {
-        const coverDetails = assetDetails.get(stemAssets.cover)!;
-        const rawDetails = assetDetails.get(rawId)!;
+interface TimedAsset {
+  asset: AssetData;
+  time: number;
+}
 
-        pairs.push({
-          coverAssetId: stemAssets.cover,
-          coverFileName: coverDetails.fileName,
-          rawAssetId: rawId,
-          rawFileName: rawDetails.fileName,
-          stem,
-        });
+function toTimedAssets(assets: AssetData[]): TimedAsset[] {
+  return assets
+    .map((asset) => ({
+      asset,
+      time: asset.takenAt ? new Date(asset.takenAt).getTime() : NaN,
+    }))
+    .filter((timed) => !isNaN(timed.time))
+    .sort((a, b) => a.time - b.time);
+}
+
+function isSameCamera(a: AssetData, b: AssetData): boolean {
+  if (!a.make || !a.model || !b.make || !b.model) return false;
+  return (
+    a.make.trim().toLowerCase() === b.make.trim().toLowerCase() &&
+    a.model.trim().toLowerCase() === b.model.trim().toLowerCase()
+  );
+}
+
+/**
+ * Pairs each RAW with the cover closest to it in capture time. Used when the
+ * two files don't share a filename stem, e.g. a camera RAW and a phone export.
+ */
+export async function findTimeGroups(
+  assets: AssetData[],
+  coverPattern: RegExp,
+  rawPattern: RegExp,
+  options: { toleranceMs: number; sameCamera: boolean; verbose: boolean },
+): Promise<StackingResult> {
+  const coverAssets: AssetData[] = [];
+  const rawAssets: AssetData[] = [];
+
+  console.log(`  Processing ${assets.length} assets...`);
+
+  for (const asset of assets) {
+    if (coverPattern.test(asset.originalFileName)) {
+      coverAssets.push(asset);
+    } else if (rawPattern.test(asset.originalFileName)) {
+      rawAssets.push(asset);
+    }
+  }
+
+  const covers = toTimedAssets(coverAssets);
+  const raws = toTimedAssets(rawAssets);
+  const missingTime =
+    coverAssets.length + rawAssets.length - covers.length - raws.length;
+
+  if (missingTime > 0) {
+    console.warn(
+      `  Warning: ${missingTime} file(s) have no capture time and were not matched.`,
+    );
+  }
+
+  const rawsByCover = new Map<string, AssetData[]>();
+  const ambiguousMatches: Array<{
+    rawFile: string;
+    coverFile: string;
+    candidates: number;
+  }> = [];
+  let skippedNoMatch = missingTime;
+
+  for (const raw of raws) {
+    let low = 0;
+    let high = covers.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (covers[mid]!.time < raw.time - options.toleranceMs) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    let best: TimedAsset | undefined;
+    let candidates = 0;
+    for (
+      let i = low;
+      i < covers.length && covers[i]!.time <= raw.time + options.toleranceMs;
+      i++
+    ) {
+      const cover = covers[i]!;
+      if (options.sameCamera && !isSameCamera(cover.asset, raw.asset)) continue;
+      candidates++;
+      if (!best || Math.abs(cover.time - raw.time) < Math.abs(best.time - raw.time)) {
+        best = cover;
+      }
+    }
+
+    if (!best) {
+      skippedNoMatch++;
+      continue;
+    }
+
+    if (candidates > 1) {
+      ambiguousMatches.push({
+        rawFile: raw.asset.originalFileName,
+        coverFile: best.asset.originalFileName,
+        candidates,
+      });
+    }
+
+    const matched = rawsByCover.get(best.asset.id) ?? [];
+    matched.push(raw.asset);
+    rawsByCover.set(best.asset.id, matched);
+  }
+
+  if (ambiguousMatches.length > 0) {
+    console.warn(
+      `  Warning: ${ambiguousMatches.length} RAW file(s) had multiple covers within the tolerance. ` +
+        `The nearest capture time was used.`,
+    );
+    if (options.verbose) {
+      for (const { rawFile, coverFile, candidates } of ambiguousMatches.slice(0, 10)) {
+        console.warn(
+          `    - ${rawFile}: matched "${coverFile}" out of ${candidates} candidates`,
+        );
       }
-    } else if (!stemAssets.cover && stemAssets.raw.length > 0) {
-      skippedNoMatch += stemAssets.raw.length;
-    } else if (stemAssets.cover && stemAssets.raw.length === 0) {
+      if (ambiguousMatches.length > 10) {
+        console.warn(`    ... and ${ambiguousMatches.length - 10} more`);
+      }
+    }
+  }
+
+  const groups: StackGroup[] = [];
+
+  for (const { asset: cover } of covers) {
+    const matched = rawsByCover.get(cover.id);
+    if (!matched) {
       skippedNoMatch++;
+      continue;
     }
+
+    groups.push({
+      stem: getFileStem(cover.originalFileName),
+      cover: { assetId: cover.id, fileName: cover.originalFileName },
+      members: matched.map((raw) => ({
+        assetId: raw.id,
+        fileName: raw.originalFileName,
+      })),
+      existingStacks: [],
+      matchReason: `captured within ${options.toleranceMs} ms of the cover${options.sameCamera ? " by the same camera" : ""}`,
+    });
   }
 
   return {
-    pairs,
+    groups,
     skippedNoMatch,
-    stacksCreated: 0,
+    skippedAlreadyStacked: 0,
+    skippedCollision: 0,
   };
 }
 
-async function createStacks(pairs: AssetPair[]): Promise<number> {
-  let created = 0;
+/** Parses EXIF exposure times such as "1/250" or "2.5" into seconds. */
+export function parseExposureTime(value?: string | null): number {
+  if (!value) return NaN;
+  const [numerator, denominator] = value.split("/");
+  if (denominator !== undefined) {
+    return Number(numerator) / Number(denominator);
+  }
+  return Number(value);
+}
+
+function pickSequenceCover(
+  frames: AssetData[],
+  rule: SequenceCoverRule,
+): AssetData {
+  const middle = frames[Math.floor((frames.length - 1) / 2)]!;
+
+  if (rule === "first") {
+    return frames[0]!;
+  }
+
+  if (rule === "favorite") {
+    return frames.find((frame) => frame.isFavorite) ?? middle;
+  }
+
+  const exposures = frames.map((frame) => parseExposureTime(frame.exposureTime));
+  if (exposures.some((exposure) => isNaN(exposure))) {
+    return middle;
+  }
+
+  const byExposure = frames
+    .map((frame, index) => ({ frame, exposure: exposures[index]! }))
+    .sort((a, b) => a.exposure - b.exposure);
+  return byExposure[Math.floor((byExposure.length - 1) / 2)]!.frame;
+}
+
+function hasDifferingExposures(frames: AssetData[]): boolean {
+  const exposures = new Set(
+    frames
+      .map((frame) => parseExposureTime(frame.exposureTime))
+      .filter((exposure) => !isNaN(exposure)),
+  );
+  return exposures.size > 1;
+}
+
+/**
+ * Groups exposure brackets and bursts: runs of shots from the same camera where
+ * each frame follows the previous one within the configured gap. Only images
+ * with an EXIF camera and capture time are considered; without them,
+ * screenshots, scans and batch imports would look like bursts.
+ */
+export async function findSequenceGroups(
+  assets: AssetData[],
+  options: SequenceOptions,
+): Promise<StackingResult> {
+  const assetsByCamera = new Map<string, AssetData[]>();
+  let skippedNoMatch = 0;
+
+  console.log(`  Processing ${assets.length} assets...`);
+
+  for (const asset of assets) {
+    if (
+      asset.type !== AssetTypeEnum.Image ||
+      !asset.make ||
+      !asset.model ||
+      !asset.dateTimeOriginal
+    ) {
+      skippedNoMatch++;
+      continue;
+    }
+    const camera = `${asset.make}|${asset.model}`.toLowerCase();
+    const cameraAssets = assetsByCamera.get(camera) ?? [];
+    cameraAssets.push(asset);
+    assetsByCamera.set(camera, cameraAssets);
+  }
+
+  const groups: StackGroup[] = [];
+  let skippedSameExposure = 0;
+
+  const closeRun = (run: TimedAsset[]) => {
+    if (run.length < options.minFrames) {
+      skippedNoMatch += run.length;
+      return;
+    }
+
+    const frames = run.map((timed) => timed.asset);
+    if (options.bracketOnly && !hasDifferingExposures(frames)) {
+      skippedSameExposure += frames.length;
+      skippedNoMatch += frames.length;
+      return;
+    }
+
+    const cover = pickSequenceCover(frames, options.coverRule);
+    groups.push({
+      stem: getFileStem(cover.originalFileName),
+      cover: { assetId: cover.id, fileName: cover.originalFileName },
+      members: frames
+        .filter((frame) => frame.id !== cover.id)
+        .map((frame) => ({ assetId: frame.id, fileName: frame.originalFileName })),
+      existingStacks: [],
+      matchReason: `${frames.length}-frame sequence with gaps under ${options.gapMs} ms`,
+      coverReason: `${options.coverRule} frame`,
+    });
+  };
+
+  for (const cameraAssets of assetsByCamera.values()) {
+    const timed = toTimedAssets(cameraAssets);
+    skippedNoMatch += cameraAssets.length - timed.length;
+
+    let run: TimedAsset[] = [];
+    for (const frame of timed) {
+      const previous = run[run.length - 1];
+      if (previous && frame.time - previous.time > options.gapMs) {
+        closeRun(run);
+        run = [];
+      }
+      run.push(frame);
+    }
+    closeRun(run);
+  }
+
+  if (options.verbose && skippedSameExposure > 0) {
+    console.log(
+      `  ${skippedSameExposure} frame(s) in sequences without differing exposures were skipped`,
+    );
+  }
+
+  groups.sort((a, b) => a.cover.fileName.localeCompare(b.cover.fileName));
+
+  return {
+    groups,
+    skippedNoMatch,
+    skippedAlreadyStacked: 0,
+    skippedCollision: 0,
+  };
+}
+
+function groupAssetIds(group: StackGroup): string[] {
+  return [group.cover.assetId, ...group.members.map((member) => member.assetId)];
+}
+
+function isSameStack(group: StackGroup, existing: ExistingStack): boolean {
+  const assetIds = groupAssetIds(group);
+  return (
+    existing.primaryAssetId === group.cover.assetId &&
+    existing.assetIds.length === assetIds.length &&
+    assetIds.every((assetId) => existing.assetIds.includes(assetId))
+  );
+}
+
+/**
+ * Attaches the stacks that already contain a group's assets and drops groups
+ * the policy leaves untouched. "extend" only drops groups whose assets all sit
+ * in one stack already; "replace" only drops groups identical to their stack.
+ */
+export function resolveExistingStacks(
+  groups: StackGroup[],
+  stacksByAssetId: Map<string, ExistingStack>,
+  policy: ExistingStackPolicy,
+): { groups: StackGroup[]; skippedAlreadyStacked: number } {
+  const resolved: StackGroup[] = [];
+  let skippedAlreadyStacked = 0;
+
+  for (const group of groups) {
+    const existingStacks = new Map<string, ExistingStack>();
+    for (const assetId of groupAssetIds(group)) {
+      const existing = stacksByAssetId.get(assetId);
+      if (existing) existingStacks.set(existing.id, existing);
+    }
+
+    if (existingStacks.size === 0) {
+      resolved.push(group);
+      continue;
+    }
+
+    const stacks = Array.from(existingStacks.values());
+    const [onlyStack] = stacks;
+    const alreadyComplete =
+      stacks.length === 1 &&
+      onlyStack !== undefined &&
+      (policy === "extend"
+        ? groupAssetIds(group).every((assetId) => onlyStack.assetIds.includes(assetId))
+        : isSameStack(group, onlyStack));
+
+    if (policy === "skip" || alreadyComplete) {
+      skippedAlreadyStacked++;
+      continue;
+    }
+
+    resolved.push({ ...group, existingStacks: stacks });
+  }
+
+  return { groups: resolved, skippedAlreadyStacked };
+}
+
+/**
+ * Builds the createStack payload for a group. When extending, the primaries of
+ * the existing stacks go first so the server folds their members into the new
+ * stack and the current primary is kept.
+ */
+function buildStackAssetIds(
+  group: StackGroup,
+  policy: ExistingStackPolicy,
+): string[] {
+  const assetIds = groupAssetIds(group);
+  if (policy !== "extend" || group.existingStacks.length === 0) {
+    return assetIds;
+  }
+
+  const primaryIds = group.existingStacks.map((existing) => existing.primaryAssetId);
+  return [...primaryIds, ...assetIds.filter((assetId) => !primaryIds.includes(assetId))];
+}
 
-  for (const pair of pairs) {
+function describeExistingStacks(
+  group: StackGroup,
+  policy: ExistingStackPolicy,
+): string {
+  if (group.existingStacks.length === 0) return "";
+  const action = policy === "extend" ? "extends" : "replaces";
+  const count = group.existingStacks.length;
+  return ` (${action} ${count} existing stack${count !== 1 ? "s" : ""})`;
+}
+
+function describeGroup(group: StackGroup, policy: ExistingStackPolicy): string {
+  const coverNote = group.coverReason ? ` [cover: ${group.coverReason}]` : "";
+  return `${formatGroup(group)}${coverNote}${describeExistingStacks(group, policy)}`;
+}
+
+function countMembers(groups: StackGroup[]): number {
+  return groups.reduce((sum, group) => sum + 1 + group.members.length, 0);
+}
+
+function formatGroup(group: StackGroup): string {
+  return [group.cover, ...group.members]
+    .map((member) => member.fileName)
+    .join(" + ");
+}
+
+export interface CreateStacksOptions {
+  concurrency: number;
+  retries: number;
+}
+
+interface CreateStacksOutcome {
+  created: ManifestStack[];
+  failed: { stem: string; error: string }[];
+  /** Stacks deleted by `--existing replace` whose new stack failed. */
+  deleted: ExistingStack[];
+  manifestPath: string;
+  /** Set when the manifest could not be written; later writes are skipped. */
+  manifestError?: string;
+}
+
+/**
+ * Creates the stacks and keeps the manifest on disk as it goes: it is written
+ * before the first stack and rewritten after each one, so an interrupted run
+ * still leaves an undo record. Nothing is created if the first write fails.
+ */
+async function createStacks(
+  groups: StackGroup[],
+  policy: ExistingStackPolicy,
+  options: CreateStacksOptions,
+  manifestPath = defaultManifestPath(),
+): Promise<CreateStacksOutcome> {
+  const outcome: CreateStacksOutcome = { created: [], failed: [], deleted: [], manifestPath };
+  const retry = { retries: options.retries, baseDelayMs: 500 };
+  const startedAt = new Date();
+
+  // Stacks are created concurrently, so writes are chained to keep them in order.
+  let writing = Promise.resolve();
+  const saveManifest = () => {
+    writing = writing.then(async () => {
+      if (outcome.manifestError !== undefined) return;
+      try {
+        await writeStackManifest(manifestPath, outcome.created, startedAt, outcome.deleted);
+      } catch (err) {
+        outcome.manifestError = err instanceof Error ? err.message : "Unknown error";
+        console.error(`  Failed to write manifest ${manifestPath}: ${outcome.manifestError}`);
+      }
+    });
+    return writing;
+  };
+
+  await saveManifest();
+  if (outcome.manifestError !== undefined) {
+    return outcome;
+  }
+
+  await runWithConcurrency(groups, options.concurrency, async (group) => {
+    let deletedExisting = false;
     try {
-      await createStack({
-        stackCreateDto: {
-          assetIds: [pair.coverAssetId, pair.rawAssetId],
-        },
+      // The existing stacks must go first: creating a stack that includes one
+      // of their primaries would fold them in, as `--existing extend` does.
+      if (policy === "replace" && group.existingStacks.length > 0) {
+        await withRetry(
+          () =>
+            deleteStacks({
+              bulkIdsDto: { ids: group.existingStacks.map((existing) => existing.id) },
+            }),
+          retry,
+        );
+        deletedExisting = true;
+      }
+      // Repeating createStack is safe: the server folds a stack whose primary
+      // is included into the new one, so a retried call can't duplicate it.
+      const response = await withRetry(
+        () =>
+          createStack({
+            stackCreateDto: {
+              assetIds: buildStackAssetIds(group, policy),
+            },
+          }),
+        retry,
+      );
+      outcome.created.push({
+        id: response.id,
+        stem: group.stem,
+        cover: group.cover,
+        members: group.members,
+        ...(group.existingStacks.length > 0 && { replacedStacks: group.existingStacks }),
       });
-      created++;
       console.log(
-        `  Created stack: ${pair.coverFileName} + ${pair.rawFileName}`,
+        `  Created stack: ${describeGroup(group, policy)}`,
       );
+      await saveManifest();
     } catch (err) {
-      console.error(
-        `  Failed to create stack for ${pair.stem}: ${
-          err instanceof Error ? err.message : "Unknown error"
-        }`,
-      );
+      let error = err instanceof Error ? err.message : "Unknown error";
+      if (deletedExisting) {
+        // Recorded in the manifest so `unstack` can bring them back.
+        outcome.deleted.push(...group.existingStacks);
+        const count = group.existingStacks.length;
+        error += ` (its ${count} existing stack${count !== 1 ? "s were" : " was"} deleted; unstack --manifest restores ${count !== 1 ? "them" : "it"})`;
+        await saveManifest();
+      }
+      outcome.failed.push({ stem: group.stem, error });
+      console.error(`  Failed to create stack for ${group.stem}: ${error}`);
     }
+  });
+
+  await writing;
+  return outcome;
+}
+
+function finishRun(outcome: CreateStacksOutcome): number {
+  console.log("\nSummary:");
+  console.log(`  Stacks created:  ${outcome.created.length}`);
+  console.log(`  Failed:          ${outcome.failed.length}`);
+  if (outcome.manifestError === undefined) {
+    console.log(`  Manifest:        ${outcome.manifestPath}\n`);
+  } else {
+    console.log(`  Manifest:        not saved (${outcome.manifestError})\n`);
+  }
+
+  if (outcome.failed.length > 0) {
+    console.log("Failed stems:");
+    for (const failure of outcome.failed) {
+      console.log(`  ${failure.stem}: ${failure.error}`);
+    }
+    console.log();
   }
 
-  return created;
+  if (outcome.manifestError !== undefined) {
+    if (outcome.created.length === 0) {
+      console.log("No stacks were created.\n");
+    } else {
+      console.log("Created stacks:");
+      for (const created of outcome.created) {
+        console.log(`  ${created.id}  ${created.stem}`);
+      }
+      console.log();
+    }
+    return 1;
+  }
+
+  return outcome.failed.length === 0 ? 0 : 1;
 }
 
-function compileRegex(pattern: string, name: string): RegExp {
+export function compileRegex(pattern: string, name: string): RegExp {
   try {
     return new RegExp(pattern);
   } catch (err) {
@@ -333,98 +1354,272 @@ function compileRegex(pattern: string, name: string): RegExp {
 export async function stack(
   options: StackOptions,
 ): Promise<number> {
-  const coverRegex = compileRegex(options.coverPattern, "cover");
-  const rawRegex = compileRegex(options.rawPattern, "raw");
+  const coverRegex = options.coverPattern
+    ? compileRegex(options.coverPattern, "cover")
+    : undefined;
+  const rawRegex = options.rawPattern
+    ? compileRegex(options.rawPattern, "raw")
+    : undefined;
   const stemRegex = options.stemPattern
     ? compileRegex(options.stemPattern, "stem-pattern")
     : undefined;
 
   console.log("\nImmich Stack Tool\n");
-  console.log(`  Cover pattern:  ${options.coverPattern}`);
-  console.log(`  Raw pattern:    ${options.rawPattern}`);
+  if (options.preset) console.log(`  Preset:         ${options.preset}`);
+  if (options.coverPattern)
+    console.log(`  Cover pattern:  ${options.coverPattern}`);
+  if (options.rawPattern)
+    console.log(`  Raw pattern:    ${options.rawPattern}`);
   if (options.stemPattern)
     console.log(`  Stem pattern:   ${options.stemPattern}`);
+  if (options.coverSelection.strategy !== "last") {
+    const priority =
+      options.coverSelection.strategy === "extension"
+        ? ` (${options.coverSelection.extensionPriority.join(", ")})`
+        : "";
+    console.log(`  Cover strategy: ${options.coverSelection.strategy}${priority}`);
+  }
+  if (options.matchMode === "stem") {
+    const window =
+      options.captureWindowMs !== undefined
+        ? `, within ${options.captureWindowMs / (60 * 60 * 1000)} h`
+        : "";
+    console.log(
+      `  Match scope:    ${options.anyDirectory ? "any directory" : "same directory"}${window}`,
+    );
+  }
+  if (options.matchMode === "time") {
+    console.log(
+      `  Match mode:     time (±${options.timeToleranceMs} ms${options.sameCamera ? ", same camera" : ""})`,
+    );
+  } else if (options.matchMode === "sequence") {
+    console.log(
+      `  Match mode:     sequence (gap ${options.sequence.gapMs} ms, min ${options.sequence.minFrames} frames, ` +
+        `cover: ${options.sequence.coverRule}${options.sequence.bracketOnly ? ", brackets only" : ""})`,
+    );
+  }
+  console.log(`  Existing:       ${options.existingPolicy}`);
   console.log(`  Dry run:        ${options.dryRun ? "Yes" : "No"}`);
-  if (options.albumId) console.log(`  Album ID:       ${options.albumId}`);
+  if (options.scope.albums.length > 0)
+    console.log(`  Albums:         ${options.scope.albums.join(", ")}`);
+  if (options.scope.people.length > 0)
+    console.log(`  People:         ${options.scope.people.join(", ")}`);
+  if (options.scope.tags.length > 0)
+    console.log(`  Tags:           ${options.scope.tags.join(", ")}`);
+  if (options.scope.cameraMake || options.scope.cameraModel) {
+    const camera = [options.scope.cameraMake, options.scope.cameraModel]
+      .filter(Boolean)
+      .join(" ");
+    console.log(`  Camera:         ${camera}`);
+  }
+  if (options.scope.pathPrefix)
+    console.log(`  Path prefix:    ${options.scope.pathPrefix}`);
   if (options.after) console.log(`  After:          ${options.after}`);
   if (options.before) console.log(`  Before:         ${options.before}`);
   console.log();
 
-  let assets: AssetData[];
-
-  if (options.albumId) {
-    if (options.after || options.before) {
-      console.warn(
-        "Warning: --after and --before filters are ignored when using --album\n",
-      );
-    }
-    console.log("Fetching album assets...");
-    assets = await fetchAlbumAssets(options.albumId);
-    console.log(`  Found ${assets.length} assets in album\n`);
-  } else {
-    console.log("Fetching assets...");
-    const afterDate = parseDate(options.after);
-    const beforeDate = parseDate(options.before);
-    assets = await fetchAssets({
-      takenAfter: afterDate,
-      takenBefore: beforeDate,
-    });
-    console.log(`  Found ${assets.length} assets\n`);
+  if (options.matchMode !== "stem" && options.stemPattern) {
+    console.warn(
+      `Warning: --stem-pattern is ignored when using --match ${options.matchMode}\n`,
+    );
   }
 
+  const { after: afterDate, before: beforeDate } = parseDateRange(options.after, options.before, {
+    timeZone: options.timeZone,
+  });
+  const { scope } = options;
+
+  const albumIds = await resolveAlbumIds(scope.albums);
+  const personIds = await resolvePersonIds(scope.people);
+  const tagIds = await resolveTagIds(scope.tags);
+
+  console.log("Fetching assets...");
+  const assets = await fetchAssets({
+    takenAfter: afterDate,
+    takenBefore: beforeDate,
+    albumIds,
+    personIds,
+    tagIds,
+    make: scope.cameraMake,
+    model: scope.cameraModel,
+    pathPrefix: scope.pathPrefix,
+  });
+  console.log(`  Found ${assets.length} assets\n`);
+
   if (assets.length === 0) {
     console.log("No assets found matching the criteria.\n");
     return 0;
   }
 
-  console.log("Analyzing assets for matching pairs...\n");
-  const result = await findMatchingPairs(
-    assets,
-    coverRegex,
-    rawRegex,
-    stemRegex,
-    options.verbose,
+  console.log("Analyzing assets for matching stacks...\n");
+  let result: StackingResult;
+  if (options.matchMode === "sequence") {
+    const candidates =
+      coverRegex && rawRegex
+        ? assets.filter(
+            (asset) =>
+              coverRegex.test(asset.originalFileName) ||
+              rawRegex.test(asset.originalFileName),
+          )
+        : assets;
+    result = await findSequenceGroups(candidates, {
+      ...options.sequence,
+      verbose: options.verbose,
+    });
+  } else if (!coverRegex || !rawRegex) {
+    throw new OptionError("Missing required option: --cover and --raw (or use --preset)");
+  } else if (options.matchMode === "time") {
+    result = await findTimeGroups(assets, coverRegex, rawRegex, {
+      toleranceMs: options.timeToleranceMs,
+      sameCamera: options.sameCamera,
+      verbose: options.verbose,
+    });
+  } else {
+    result = await findStackGroups(assets, {
+      coverPattern: coverRegex,
+      rawPattern: rawRegex,
+      stemPattern: stemRegex,
+      coverSelection: options.coverSelection,
+      sameDirectory: !options.anyDirectory,
+      captureWindowMs: options.captureWindowMs,
+      verbose: options.verbose,
+    });
+  }
+
+  const stacksByAssetId = await fetchExistingStacks();
+  const resolved = resolveExistingStacks(
+    result.groups,
+    stacksByAssetId,
+    options.existingPolicy,
   );
+  result.groups = resolved.groups;
+  result.skippedAlreadyStacked = resolved.skippedAlreadyStacked;
+  const memberCount = countMembers(result.groups);
 
   console.log("\nResults:");
-  console.log(`  Total pairs found:  ${result.pairs.length}`);
+  console.log(`  Stacks found:       ${result.groups.length}`);
+  console.log(`  Assets in stacks:   ${memberCount}`);
+  console.log(`  Already stacked:    ${result.skippedAlreadyStacked}`);
+  if (result.skippedCollision > 0)
+    console.log(`  Collisions:         ${result.skippedCollision}`);
   console.log(`  Skipped (no match): ${result.skippedNoMatch}`);
   console.log();
 
-  if (result.pairs.length === 0) {
-    console.log("No pairs to stack.\n");
+  if (result.groups.length === 0) {
+    console.log("No stacks to create.\n");
     return 0;
   }
 
-  if (options.verbose || result.pairs.length <= 20) {
-    console.log("Pairs to stack:");
-    for (const pair of result.pairs) {
-      console.log(`  ${pair.coverFileName} + ${pair.rawFileName}`);
+  if (options.verbose || result.groups.length <= 20) {
+    console.log("Stacks to create:");
+    for (const group of result.groups) {
+      console.log(
+        `  ${describeGroup(group, options.existingPolicy)}`,
+      );
     }
     console.log();
   } else {
-    console.log("First 20 pairs:");
-    for (const pair of result.pairs.slice(0, 20)) {
-      console.log(`  ${pair.coverFileName} + ${pair.rawFileName}`);
+    console.log("First 20 stacks:");
+    for (const group of result.groups.slice(0, 20)) {
+      console.log(
+        `  ${describeGroup(group, options.existingPolicy)}`,
+      );
     }
-    console.log(`  ... and ${result.pairs.length - 20} more\n`);
+    console.log(`  ... and ${result.groups.length - 20} more\n`);
+  }
+
+  if (options.planOut) {
+    await writeStackPlan(
+      options.planOut,
+      buildStackPlan(result.groups, options.existingPolicy),
+    );
+    console.log(`Plan written to ${options.planOut}\n`);
   }
 
   if (options.dryRun) {
     console.log(
-      `Dry run complete. ${result.pairs.length} stacks would be created.\n`,
+      `Dry run complete. ${result.groups.length} stacks with ${memberCount} assets would be created.\n`,
     );
     return 0;
   }
 
-  console.log(`Creating ${result.pairs.length} stacks...\n`);
-  result.stacksCreated = await createStacks(result.pairs);
+  console.log(`Creating ${result.groups.length} stacks...\n`);
+  const outcome = await createStacks(
+    result.groups,
+    options.existingPolicy,
+    options.creation,
+    options.manifestPath,
+  );
+
+  return finishRun(outcome);
+}
 
-  console.log("\nSummary:");
-  console.log(`  Stacks created:  ${result.stacksCreated}`);
-  console.log(
-    `  Failed:          ${result.pairs.length - result.stacksCreated}\n`,
+export async function applyStackPlan(options: {
+  planPath: string;
+  manifestPath?: string;
+  creation: CreateStacksOptions;
+  dryRun: boolean;
+  verbose: boolean;
+}): Promise<number> {
+  const plan = await readStackPlan(options.planPath);
+  const groups = planToGroups(plan);
+  const memberCount = countMembers(groups);
+
+  console.log("\nImmich Stack Tool\n");
+  console.log(`  Plan:           ${options.planPath}`);
+  console.log(`  Created at:     ${plan.createdAt}`);
+  console.log(`  Existing:       ${plan.existingPolicy}`);
+  console.log(`  Dry run:        ${options.dryRun ? "Yes" : "No"}`);
+  console.log();
+
+  if (groups.length === 0) {
+    console.log("Plan contains no stacks.\n");
+    return 0;
+  }
+
+  console.log(`Validating ${groups.length} stacks with ${memberCount} assets...`);
+  const assetIds = [...new Set(groups.flatMap(groupAssetIds))];
+  const missingAssetIds = await findMissingAssetIds(assetIds);
+  const stacksByAssetId = await fetchExistingStacks();
+  const conflicts = findPlanConflicts(plan, missingAssetIds, stacksByAssetId);
+
+  if (conflicts.length > 0) {
+    console.error(`\nPlan no longer matches the server (${conflicts.length} problems):`);
+    const shown = options.verbose ? conflicts : conflicts.slice(0, 10);
+    for (const conflict of shown) {
+      console.error(`  ${conflict}`);
+    }
+    if (shown.length < conflicts.length) {
+      console.error(`  ... and ${conflicts.length - shown.length} more`);
+    }
+    console.error("\nNo stacks were created. Re-run the dry run to build a fresh plan.\n");
+    return 1;
+  }
+  console.log("  Plan is up to date\n");
+
+  if (options.verbose || options.dryRun) {
+    console.log("Stacks to create:");
+    for (const group of groups) {
+      console.log(`  ${describeGroup(group, plan.existingPolicy)}`);
+      console.log(`    Reason: ${group.matchReason}`);
+    }
+    console.log();
+  }
+
+  if (options.dryRun) {
+    console.log(
+      `Dry run complete. ${groups.length} stacks with ${memberCount} assets would be created.\n`,
+    );
+    return 0;
+  }
+
+  console.log(`Creating ${groups.length} stacks...\n`);
+  const outcome = await createStacks(
+    groups,
+    plan.existingPolicy,
+    options.creation,
+    options.manifestPath,
   );
 
-  return result.stacksCreated === result.pairs.length ? 0 : 1;
+  return finishRun(outcome);
 }
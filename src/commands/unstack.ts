@@ -0,0 +1,337 @@
+import {
+  searchStacks,
+  createStack,
+  deleteStacks,
+  getAlbumInfo,
+  type StackResponseDto,
+} from "@immich/sdk";
+import { resolveAlbumIds } from "../api/lookup.ts";
+import { withRetry } from "../api/retry.ts";
+import { parseDateRange } from "../dates.ts";
+import { OptionError, type CommandOption } from "../registry.ts";
+import { readStackManifest, type StackManifest } from "./stack-manifest.ts";
+import type { ExistingStack } from "./stack.ts";
+
+export const unstackCommandMeta = {
+  name: "unstack",
+  description: "Delete stacks created by a previous stack run or matching filters",
+  options: [
+    {
+      name: "manifest",
+      type: "string",
+      description: "Delete exactly the stacks listed in a stack run manifest",
+      placeholder: "file",
+    },
+    {
+      name: "album",
+      type: "string",
+      multiple: true,
+      description: "Only stacks with an asset in this album, by ID or name (repeatable)",
+      placeholder: "album",
+    },
+    {
+      name: "after",
+      type: "string",
+      description: "Only stacks whose primary asset was taken on or after this date (see DATES)",
+      placeholder: "date",
+    },
+    {
+      name: "before",
+      type: "string",
+      description: "Only stacks whose primary asset was taken on or before this date (see DATES)",
+      placeholder: "date",
+    },
+    {
+      name: "dry-run",
+      type: "boolean",
+      description: "Preview stacks without deleting them",
+    },
+    {
+      name: "verbose",
+      type: "boolean",
+      description: "Show detailed progress",
+    },
+  ] as CommandOption[],
+  examples: [
+    "immich-ts unstack --manifest stack-manifest-2024-06-01T10-15-00-000Z.json --dry-run",
+    'immich-ts unstack --album "Iceland 2024" --after 2024-06-01 --before 2024-06-15',
+  ],
+};
+
+interface UnstackOptions {
+  manifestPath?: string;
+  albums: string[];
+  after?: string;
+  before?: string;
+  timeZone?: string;
+  dryRun: boolean;
+  verbose: boolean;
+}
+
+export interface StackSummary {
+  id: string;
+  description: string;
+  assetIds: string[];
+  takenAt?: string;
+}
+
+export interface StackFilter {
+  albumAssetIds: Set<string>[];
+  after?: number;
+  before?: number;
+}
+
+function toStackSummary(stack: StackResponseDto): StackSummary {
+  const primary = stack.assets.find((asset) => asset.id === stack.primaryAssetId);
+  const secondaries = stack.assets.filter((asset) => asset.id !== stack.primaryAssetId);
+
+  return {
+    id: stack.id,
+    description: [primary, ...secondaries]
+      .filter((asset) => asset !== undefined)
+      .map((asset) => asset.originalFileName)
+      .join(" + "),
+    assetIds: stack.assets.map((asset) => asset.id),
+    takenAt: primary?.exifInfo?.dateTimeOriginal ?? primary?.fileCreatedAt,
+  };
+}
+
+/**
+ * Selects stacks that have an asset in every album and whose primary asset was
+ * taken inside the date range. Stacks without a capture date never match a
+ * date filter.
+ */
+export function filterStacks(stacks: StackSummary[], filter: StackFilter): StackSummary[] {
+  return stacks.filter((stack) => {
+    const inAlbums = filter.albumAssetIds.every((albumAssetIds) =>
+      stack.assetIds.some((assetId) => albumAssetIds.has(assetId)),
+    );
+    if (!inAlbums) return false;
+
+    if (filter.after === undefined && filter.before === undefined) return true;
+    if (!stack.takenAt) return false;
+
+    const takenAt = new Date(stack.takenAt).getTime();
+    if (filter.after !== undefined && takenAt < filter.after) return false;
+    if (filter.before !== undefined && takenAt > filter.before) return false;
+    return true;
+  });
+}
+
+async function fetchAlbumAssetIds(albumIds: string[]): Promise<Set<string>[]> {
+  const result: Set<string>[] = [];
+  for (const id of albumIds) {
+    const album = await getAlbumInfo({ id, withoutAssets: false });
+    result.push(new Set(album.assets.map((asset) => asset.id)));
+  }
+  return result;
+}
+
+export interface ManifestUndo {
+  /** Stacks from the run that still exist and are deleted. */
+  selected: StackSummary[];
+  /** Stems whose stack is already gone. */
+  missing: string[];
+  /** Stacks the run folded in or replaced, recreated after the deletion. */
+  restore: ExistingStack[];
+  /** Entries left alone because their original stacks can't be recreated. */
+  refused: { stem: string; reason: string }[];
+}
+
+/**
+ * Matches manifest entries to stacks that still exist on the server and plans
+ * to recreate the stacks an `--existing extend` or `replace` run merged away.
+ * An entry is refused when an asset of such a stack is now in a stack outside
+ * the manifest, since recreating it would take that asset out again.
+ */
+export function selectFromManifest(
+  manifest: StackManifest,
+  stacks: StackSummary[],
+): ManifestUndo {
+  const manifestIds = new Set(manifest.stacks.map((entry) => entry.id));
+  const stacksById = new Map(stacks.map((stack) => [stack.id, stack]));
+  const otherStackAssets = new Set(
+    stacks.filter((stack) => !manifestIds.has(stack.id)).flatMap((stack) => stack.assetIds),
+  );
+  const undo: ManifestUndo = { selected: [], missing: [], restore: [], refused: [] };
+
+  for (const entry of manifest.stacks) {
+    const replaced = entry.replacedStacks ?? [];
+    const taken = replaced
+      .flatMap((original) => original.assetIds)
+      .filter((assetId) => otherStackAssets.has(assetId));
+    if (taken.length > 0) {
+      undo.refused.push({
+        stem: entry.stem,
+        reason: `${taken.length} asset${taken.length !== 1 ? "s" : ""} of the stacks it replaced ${taken.length !== 1 ? "are" : "is"} now in another stack`,
+      });
+      continue;
+    }
+
+    const stack = stacksById.get(entry.id);
+    if (stack) {
+      undo.selected.push(stack);
+    } else {
+      undo.missing.push(entry.stem);
+    }
+    undo.restore.push(...replaced);
+  }
+
+  for (const deleted of manifest.deletedStacks ?? []) {
+    const taken = deleted.assetIds.filter((assetId) => otherStackAssets.has(assetId));
+    if (taken.length > 0) {
+      undo.refused.push({
+        stem: `stack ${deleted.id}`,
+        reason: `${taken.length} of its assets ${taken.length !== 1 ? "are" : "is"} now in another stack`,
+      });
+    } else {
+      undo.restore.push(deleted);
+    }
+  }
+
+  return undo;
+}
+
+const RETRY = { retries: 3, baseDelayMs: 500 };
+
+/** Recreates stacks with their original primary asset first. Returns the number that failed. */
+async function restoreStacks(originals: ExistingStack[]): Promise<number> {
+  let failed = 0;
+  for (const original of originals) {
+    const assetIds = [
+      original.primaryAssetId,
+      ...original.assetIds.filter((assetId) => assetId !== original.primaryAssetId),
+    ];
+    try {
+      await withRetry(() => createStack({ stackCreateDto: { assetIds } }), RETRY);
+    } catch (err) {
+      failed++;
+      console.error(
+        `  Failed to restore stack ${original.id}: ${err instanceof Error ? err.message : "Unknown error"}`,
+      );
+    }
+  }
+  return failed;
+}
+
+export async function unstack(options: UnstackOptions): Promise<number> {
+  const hasFilter =
+    options.albums.length > 0 || options.after !== undefined || options.before !== undefined;
+  if (options.manifestPath && hasFilter) {
+    throw new OptionError("--manifest cannot be combined with --album, --after or --before");
+  }
+  if (!options.manifestPath && !hasFilter) {
+    throw new OptionError("Missing required option: --manifest (or --album, --after, --before)");
+  }
+
+  const range = parseDateRange(options.after, options.before, { timeZone: options.timeZone });
+  const after = range.after ? Date.parse(range.after) : undefined;
+  const before = range.before ? Date.parse(range.before) : undefined;
+  const manifest = options.manifestPath
+    ? await readStackManifest(options.manifestPath)
+    : undefined;
+
+  console.log("\nImmich Unstack Tool\n");
+  if (options.manifestPath) console.log(`  Manifest:       ${options.manifestPath}`);
+  if (options.albums.length > 0)
+    console.log(`  Albums:         ${options.albums.join(", ")}`);
+  if (options.after) console.log(`  After:          ${options.after}`);
+  if (options.before) console.log(`  Before:         ${options.before}`);
+  console.log(`  Dry run:        ${options.dryRun ? "Yes" : "No"}`);
+  console.log();
+
+  console.log("Fetching stacks...");
+  const stacks = (await searchStacks({})).map(toStackSummary);
+  console.log(`  Found ${stacks.length} stacks\n`);
+
+  let selected: StackSummary[];
+  let restore: ExistingStack[] = [];
+  let refused = 0;
+  if (manifest) {
+    const result = selectFromManifest(manifest, stacks);
+    selected = result.selected;
+    restore = result.restore;
+    refused = result.refused.length;
+    if (result.missing.length > 0) {
+      console.log(`  Already removed:    ${result.missing.length}`);
+      if (options.verbose) {
+        for (const stem of result.missing) {
+          console.log(`    ${stem}`);
+        }
+      }
+    }
+    if (result.refused.length > 0) {
+      console.warn(`  Not undone:         ${result.refused.length}`);
+      for (const { stem, reason } of result.refused) {
+        console.warn(`    ${stem}: ${reason}`);
+      }
+    }
+  } else {
+    const albumIds = await resolveAlbumIds(options.albums);
+    selected = filterStacks(stacks, {
+      albumAssetIds: await fetchAlbumAssetIds(albumIds),
+      after,
+      before,
+    });
+  }
+  console.log(`  Stacks to delete:   ${selected.length}`);
+  if (restore.length > 0) {
+    console.log(`  Stacks to restore:  ${restore.length}`);
+  }
+  console.log();
+
+  if (selected.length === 0 && restore.length === 0) {
+    console.log("No stacks to delete.\n");
+    return refused > 0 ? 1 : 0;
+  }
+
+  const shown = options.verbose ? selected : selected.slice(0, 20);
+  console.log("Stacks to delete:");
+  for (const stack of shown) {
+    console.log(`  ${stack.description}`);
+  }
+  if (shown.length < selected.length) {
+    console.log(`  ... and ${selected.length - shown.length} more`);
+  }
+  console.log();
+
+  if (options.dryRun) {
+    const restoreNote = restore.length > 0 ? ` and ${restore.length} restored` : "";
+    console.log(
+      `Dry run complete. ${selected.length} stacks would be deleted${restoreNote}.\n`,
+    );
+    return refused > 0 ? 1 : 0;
+  }
+
+  // The assets themselves are kept; deleting a stack only ungroups them.
+  // Deleting is safe to repeat, since stacks that are already gone are skipped.
+  if (selected.length > 0) {
+    try {
+      await withRetry(
+        () => deleteStacks({ bulkIdsDto: { ids: selected.map((stack) => stack.id) } }),
+        RETRY,
+      );
+    } catch (err) {
+      console.error(
+        `Failed to delete ${selected.length} stacks: ${
+          err instanceof Error ? err.message : "Unknown error"
+        }`,
+      );
+      if (restore.length > 0) {
+        console.error(`Skipped restoring ${restore.length} stacks.`);
+      }
+      console.log("Run again to retry.\n");
+      return 1;
+    }
+  }
+  console.log(`Deleted ${selected.length} stacks.`);
+
+  let failedRestores = 0;
+  if (restore.length > 0) {
+    failedRestores = await restoreStacks(restore);
+    console.log(`Restored ${restore.length - failedRestores} stacks.`);
+  }
+  console.log();
+
+  return refused > 0 || failedRestores > 0 ? 1 : 0;
+}
@@ -0,0 +1,226 @@
+import { OptionError } from "./registry.ts";
+
+/** Whether a date is the start of a range (--after) or its inclusive end (--before). */
+export type DateBoundary = "start" | "end";
+
+export interface DateOptions {
+  /** IANA time zone for plain dates and relative forms (default: the system time zone). */
+  timeZone?: string;
+  /** Reference time for relative forms. */
+  now?: Date;
+}
+
+/** ISO timestamps for the --after/--before filters; either end may be open. */
+export interface DateRange {
+  after?: string;
+  before?: string;
+}
+
+export const DATE_FORMAT_HELP =
+  "YYYY-MM-DD, an ISO date-time, today, yesterday, 7d, 2w, this-month, last-month, this-year or last-year";
+
+interface CalendarDate {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+interface CalendarSpan {
+  first: CalendarDate;
+  last: CalendarDate;
+}
+
+const PLAIN_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?$/i;
+const ZONED_DATE_TIME = /^\d{4}-\d{2}-\d{2}T[\d:.]+(Z|[+-]\d{2}:?\d{2})$/i;
+const DAYS_AGO = /^(\d+)([dw])$/;
+
+export function validateTimeZone(timeZone: string): string {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new OptionError(
+      `Invalid value for --tz: "${timeZone}". Expected an IANA time zone such as Europe/Berlin`,
+    );
+  }
+  return timeZone;
+}
+
+function zonedParts(time: number, timeZone: string): number[] {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(time));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return [get("year"), get("month"), get("day"), get("hour"), get("minute"), get("second")];
+}
+
+function offsetMs(time: number, timeZone: string): number {
+  const [year, month, day, hour, minute, second] = zonedParts(time, timeZone) as [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+  ];
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wall - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock time in `timeZone` (given as if it were UTC) to a real
+ * timestamp. The offset is checked twice so times near DST changes land right.
+ */
+function zonedToUtc(wall: number, timeZone: string): number {
+  const guess = wall - offsetMs(wall, timeZone);
+  return wall - offsetMs(guess, timeZone);
+}
+
+function toCalendarDate(time: number): CalendarDate {
+  const date = new Date(time);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  return toCalendarDate(Date.UTC(date.year, date.month - 1, date.day + days));
+}
+
+function startOfDay(date: CalendarDate, timeZone: string): number {
+  return zonedToUtc(Date.UTC(date.year, date.month - 1, date.day), timeZone);
+}
+
+function today(now: Date, timeZone: string): CalendarDate {
+  const [year, month, day] = zonedParts(now.getTime(), timeZone) as [number, number, number];
+  return { year, month, day };
+}
+
+function monthSpan(year: number, month: number): CalendarSpan {
+  const first = toCalendarDate(Date.UTC(year, month - 1, 1));
+  return { first, last: addDays(toCalendarDate(Date.UTC(year, month, 1)), -1) };
+}
+
+function yearSpan(year: number): CalendarSpan {
+  return { first: { year, month: 1, day: 1 }, last: { year, month: 12, day: 31 } };
+}
+
+function relativeSpan(value: string, current: CalendarDate): CalendarSpan | undefined {
+  const single = (date: CalendarDate) => ({ first: date, last: date });
+
+  switch (value) {
+    case "today":
+      return single(current);
+    case "yesterday":
+      return single(addDays(current, -1));
+    case "this-month":
+      return monthSpan(current.year, current.month);
+    case "last-month":
+      return monthSpan(current.year, current.month - 1);
+    case "this-year":
+      return yearSpan(current.year);
+    case "last-year":
+      return yearSpan(current.year - 1);
+  }
+
+  const match = DAYS_AGO.exec(value);
+  if (match) {
+    const days = Number(match[1]) * (match[2] === "w" ? 7 : 1);
+    return single(addDays(current, -days));
+  }
+  return undefined;
+}
+
+function invalidDate(value: string): OptionError {
+  return new OptionError(`Invalid date format: ${value}. Use ${DATE_FORMAT_HELP}`);
+}
+
+/**
+ * Parses a date filter value to an ISO timestamp. Plain dates and relative
+ * forms cover whole days in the time zone: as a "start" they begin at
+ * midnight, as an "end" they include the whole last day. Date-times with an
+ * offset are taken as-is; date-times without one are read in the time zone.
+ */
+export function parseDate(
+  value: string,
+  boundary: DateBoundary,
+  options: DateOptions = {},
+): string {
+  const timeZone = options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const input = value.trim().toLowerCase();
+
+  if (ZONED_DATE_TIME.test(input)) {
+    const time = Date.parse(input.toUpperCase());
+    if (isNaN(time)) throw invalidDate(value);
+    return new Date(time).toISOString();
+  }
+
+  const dateTime = LOCAL_DATE_TIME.exec(input);
+  if (dateTime) {
+    const [year, month, day, hour, minute, second] = dateTime
+      .slice(1, 7)
+      .map((part) => Number(part ?? 0));
+    const wall = Date.UTC(
+      year!,
+      month! - 1,
+      day!,
+      hour!,
+      minute!,
+      second!,
+      Number((dateTime[7] ?? "0").padEnd(3, "0")),
+    );
+    if (toCalendarDate(wall).day !== day || hour! > 23 || minute! > 59 || second! > 59) {
+      throw invalidDate(value);
+    }
+    return new Date(zonedToUtc(wall, timeZone)).toISOString();
+  }
+
+  let span: CalendarSpan | undefined;
+  const plain = PLAIN_DATE.exec(input);
+  if (plain) {
+    const date = { year: Number(plain[1]), month: Number(plain[2]), day: Number(plain[3]) };
+    const normalized = toCalendarDate(Date.UTC(date.year, date.month - 1, date.day));
+    if (normalized.month !== date.month || normalized.day !== date.day) {
+      throw invalidDate(value);
+    }
+    span = { first: date, last: date };
+  } else {
+    span = relativeSpan(input, today(options.now ?? new Date(), timeZone));
+  }
+  if (!span) {
+    throw invalidDate(value);
+  }
+
+  const time =
+    boundary === "start"
+      ? startOfDay(span.first, timeZone)
+      : startOfDay(addDays(span.last, 1), timeZone) - 1;
+  return new Date(time).toISOString();
+}
+
+/** Parses --after and --before and rejects ranges that end before they start. */
+export function parseDateRange(
+  after: string | undefined,
+  before: string | undefined,
+  options: DateOptions = {},
+): DateRange {
+  const range: DateRange = {
+    after: after ? parseDate(after, "start", options) : undefined,
+    before: before ? parseDate(before, "end", options) : undefined,
+  };
+
+  if (range.after && range.before && range.after > range.before) {
+    throw new OptionError(
+      `Invalid date range: --after ${after} is later than --before ${before}`,
+    );
+  }
+  return range;
+}
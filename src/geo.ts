@@ -0,0 +1,80 @@
+import { OptionError } from "./registry.ts";
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  minLongitude: number;
+  maxLatitude: number;
+  maxLongitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+function parseNumbers(value: string, count: number, name: string, format: string): number[] {
+  const parts = value.split(",").map((part) => part.trim());
+  const numbers = parts.map(Number);
+  if (
+    parts.length !== count ||
+    parts.some((part) => part === "") ||
+    numbers.some((number) => !Number.isFinite(number))
+  ) {
+    throw new OptionError(`Invalid value for --${name}: "${value}". Expected ${format}`);
+  }
+  return numbers;
+}
+
+function checkRange(latitude: number, longitude: number, name: string, value: string): void {
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    throw new OptionError(
+      `Invalid value for --${name}: "${value}". Latitude must be within ±90 and longitude within ±180`,
+    );
+  }
+}
+
+/** Parses "lat,lon" in decimal degrees. */
+export function parseCoordinates(value: string, name: string): Coordinates {
+  const [latitude, longitude] = parseNumbers(value, 2, name, "<lat,lon>") as [number, number];
+  checkRange(latitude, longitude, name, value);
+  return { latitude, longitude };
+}
+
+/** Parses "minLat,minLon,maxLat,maxLon". A box with minLon > maxLon crosses the antimeridian. */
+export function parseBoundingBox(value: string, name: string): BoundingBox {
+  const [minLatitude, minLongitude, maxLatitude, maxLongitude] = parseNumbers(
+    value,
+    4,
+    name,
+    "<minLat,minLon,maxLat,maxLon>",
+  ) as [number, number, number, number];
+  checkRange(minLatitude, minLongitude, name, value);
+  checkRange(maxLatitude, maxLongitude, name, value);
+  if (minLatitude > maxLatitude) {
+    throw new OptionError(`Invalid value for --${name}: minLat is greater than maxLat`);
+  }
+  return { minLatitude, minLongitude, maxLatitude, maxLongitude };
+}
+
+/** Great-circle distance in kilometres (haversine formula). */
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function isInBoundingBox(point: Coordinates, box: BoundingBox): boolean {
+  if (point.latitude < box.minLatitude || point.latitude > box.maxLatitude) {
+    return false;
+  }
+  if (box.minLongitude <= box.maxLongitude) {
+    return point.longitude >= box.minLongitude && point.longitude <= box.maxLongitude;
+  }
+  return point.longitude >= box.minLongitude || point.longitude <= box.maxLongitude;
+}
@@ -1,11 +1,11 @@
 import { parseArgs } from "util";
 import { initClient } from "./api/index.ts";
 import { ConfigError, getConfig } from "./env.ts";
-import { registry } from "./registry.ts";
+import { OptionError, registry } from "./registry.ts";
 import "./commands/index.ts";
 
-function printHelp(): void {
-  console.log(registry.generateHelp());
+function printHelp(commandPath: string[] = []): void {
+  console.log(registry.generateHelp(commandPath));
 }
 
 function printError(message: string): void {
@@ -30,22 +30,41 @@ async function main(): Promise<number> {
   const { values, positionals } = args;
   const optionValues = values as Record<string, unknown>;
 
+  const resolved = registry.resolve(positionals);
+
   if (values.help || positionals.length === 0) {
-    printHelp();
+    // Commands in a group get the group's help; top-level commands get the full help.
+    const groupPath = !resolved
+      ? []
+      : resolved.command.subcommands?.length
+        ? resolved.path
+        : resolved.path.slice(0, -1);
+    printHelp(groupPath);
     return 0;
   }
 
-  const commandName = positionals[0]!;
-  const command = registry.get(commandName);
-
-  if (!command) {
-    printError(`Unknown command: ${commandName}`);
+  if (!resolved) {
+    printError(`Unknown command: ${positionals[0]}`);
     console.log("\nRun 'immich-ts --help' for usage information.");
     return 1;
   }
 
+  const { command, path } = resolved;
+  const commandName = path.join(" ");
+
+  if (resolved.unknownSubcommand !== undefined) {
+    printError(`Unknown command: ${commandName} ${resolved.unknownSubcommand}`);
+    console.log(`\nRun 'immich-ts ${commandName} --help' for usage information.`);
+    return 1;
+  }
+
+  if (!command.handler) {
+    printHelp(path);
+    return 0;
+  }
+
   const unsupportedOptions = registry.findUnsupportedOptions(
-    commandName,
+    path,
     optionValues,
   );
   if (unsupportedOptions.length > 0) {
@@ -56,7 +75,7 @@ async function main(): Promise<number> {
     return 1;
   }
 
-  const validation = registry.validateRequiredOptions(commandName, optionValues);
+  const validation = registry.validateRequiredOptions(path, optionValues);
   if (!validation.valid) {
     for (const missing of validation.missing) {
       printError(`Missing required option: --${missing}`);
@@ -68,13 +87,9 @@ async function main(): Promise<number> {
   try {
     const config = getConfig();
     initClient(config);
-    return await command.handler(config, optionValues);
+    return await command.handler(config, optionValues, resolved.args);
   } catch (err) {
-    if (err instanceof ConfigError) {
-      printError(err.message);
-      return 1;
-    }
-    if (err instanceof Error && err.message.includes("Invalid date")) {
+    if (err instanceof ConfigError || err instanceof OptionError) {
       printError(err.message);
       return 1;
     }
@@ -15,21 +15,60 @@ export interface CommandDefinition {
   description: string;
   options: CommandOption[];
   examples?: string[];
-  handler: (config: Config, options: Record<string, unknown>) => Promise<number>;
+  /** Nested commands such as `album list`. They also accept this command's options. */
+  subcommands?: CommandDefinition[];
+  /**
+   * Runs the command with the positional arguments that follow its name.
+   * Groups without a handler show their help instead.
+   */
+  handler?: (
+    config: Config,
+    options: Record<string, unknown>,
+    args: string[],
+  ) => Promise<number>;
+}
+
+export interface ResolvedCommand {
+  command: CommandDefinition;
+  /** Command names from the top level down to `command`, e.g. ["album", "list"]. */
+  path: string[];
+  /** Positional arguments after the command path. */
+  args: string[];
+  /**
+   * The first argument when `command` declares subcommands but none matches it,
+   * e.g. "audti" for `stack audti`. Such commands take no other positionals.
+   */
+  unknownSubcommand?: string;
+}
+
+export interface HelpSection {
+  title: string;
+  lines: string[];
 }
 
 export interface GlobalOptions {
   options: CommandOption[];
   envVars: { name: string; description: string }[];
+  /** Extra help sections printed after ENVIRONMENT. */
+  sections?: HelpSection[];
+}
+
+export class OptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OptionError";
+  }
 }
 
+const FLAG_WIDTH = 28;
+
 interface ParseArgsOptionConfig {
   type: "string" | "boolean";
   short?: string;
   multiple?: boolean;
 }
 
-class CommandRegistry {
+export class CommandRegistry {
   private commands = new Map<string, CommandDefinition>();
   private globalOptions: GlobalOptions = { options: [], envVars: [] };
 
@@ -45,6 +84,33 @@ class CommandRegistry {
     return Array.from(this.commands.values());
   }
 
+  /**
+   * Finds the deepest command named by the leading positionals, so
+   * ["album", "list", "x"] resolves to `album list` with args ["x"].
+   */
+  resolve(positionals: string[]): ResolvedCommand | undefined {
+    const [name, ...rest] = positionals;
+    const top = name === undefined ? undefined : this.commands.get(name);
+    if (!top) {
+      return undefined;
+    }
+
+    let command: CommandDefinition = top;
+    const path = [top.name];
+    for (const arg of rest) {
+      const subcommand: CommandDefinition | undefined = command.subcommands?.find(
+        (sub) => sub.name === arg,
+      );
+      if (!subcommand) break;
+      command = subcommand;
+      path.push(subcommand.name);
+    }
+
+    const args = positionals.slice(path.length);
+    const unknownSubcommand = command.subcommands?.length ? args[0] : undefined;
+    return { command, path, args, ...(unknownSubcommand !== undefined && { unknownSubcommand }) };
+  }
+
   setGlobalOptions(globals: GlobalOptions): void {
     this.globalOptions = globals;
   }
@@ -68,7 +134,7 @@ class CommandRegistry {
       };
     }
 
-    for (const command of this.commands.values()) {
+    for (const { command, path } of this.walk(this.getAll(), [])) {
       for (const opt of command.options) {
         const existing = options[opt.name];
         if (!existing) {
@@ -79,7 +145,7 @@ class CommandRegistry {
           };
         } else if (existing.type !== opt.type) {
           console.warn(
-            `Warning: Option --${opt.name} in command "${command.name}" has type "${opt.type}" ` +
+            `Warning: Option --${opt.name} in command "${path.join(" ")}" has type "${opt.type}" ` +
               `but was already registered with type "${existing.type}". Using "${existing.type}".`
           );
         }
@@ -93,24 +159,31 @@ class CommandRegistry {
     };
   }
 
+  /**
+   * Checks the required options of the deepest subcommand in `commandPath`
+   * and of its parent commands.
+   */
   validateRequiredOptions(
-    commandName: string,
+    commandPath: string | string[],
     values: Record<string, unknown>
   ): { valid: boolean; missing: string[] } {
-    const command = this.commands.get(commandName);
-    if (!command) {
-      throw new Error(`validateRequiredOptions called with unknown command: ${commandName}`);
+    const resolved = this.resolve(typeof commandPath === "string" ? [commandPath] : commandPath);
+    if (!resolved) {
+      throw new Error(
+        `validateRequiredOptions called with unknown command: ${[commandPath].flat().join(" ")}`,
+      );
     }
-
     const missing: string[] = [];
 
-    for (const opt of command.options) {
-      if (opt.required) {
-        const value = values[opt.name];
-        if (value === undefined || value === null) {
-          missing.push(opt.name);
-        } else if (opt.multiple && Array.isArray(value) && value.length === 0) {
-          missing.push(opt.name);
+    for (const command of this.commandChain(resolved.path)) {
+      for (const opt of command.options) {
+        if (opt.required) {
+          const value = values[opt.name];
+          if (value === undefined || value === null) {
+            missing.push(opt.name);
+          } else if (opt.multiple && Array.isArray(value) && value.length === 0) {
+            missing.push(opt.name);
+          }
         }
       }
     }
@@ -118,18 +191,26 @@ class CommandRegistry {
     return { valid: missing.length === 0, missing };
   }
 
+  /**
+   * Lists options that neither the deepest subcommand in `commandPath`, its
+   * parent commands, nor the global options accept.
+   */
   findUnsupportedOptions(
-    commandName: string,
+    commandPath: string | string[],
     values: Record<string, unknown>
   ): string[] {
-    const command = this.commands.get(commandName);
-    if (!command) {
-      throw new Error(`findUnsupportedOptions called with unknown command: ${commandName}`);
+    const resolved = this.resolve(typeof commandPath === "string" ? [commandPath] : commandPath);
+    if (!resolved) {
+      throw new Error(
+        `findUnsupportedOptions called with unknown command: ${[commandPath].flat().join(" ")}`,
+      );
     }
 
     const allowed = new Set<string>(this.globalOptions.options.map((opt) => opt.name));
-    for (const opt of command.options) {
-      allowed.add(opt.name);
+    for (const command of this.commandChain(resolved.path)) {
+      for (const opt of command.options) {
+        allowed.add(opt.name);
+      }
     }
 
     const unsupported: string[] = [];
@@ -142,50 +223,127 @@ class CommandRegistry {
     return unsupported;
   }
 
-  generateHelp(): string {
+  /**
+   * Full help, or with `commandPath` the help of one command group: its
+   * subcommands, their options and examples.
+   */
+  generateHelp(commandPath: string[] = []): string {
+    const group = commandPath.length > 0 ? this.resolve(commandPath) : undefined;
+    if (group) {
+      return this.generateGroupHelp(group);
+    }
+
     const lines: string[] = [];
-    const flagWidth = 28;
+    const commandList = this.getAll();
 
     lines.push("immich-ts - Immich CLI tool");
     lines.push("");
     lines.push("USAGE:");
     lines.push("  immich-ts <command> [options]");
+    if (commandList.some((cmd) => cmd.subcommands?.length)) {
+      lines.push("  immich-ts <command> <subcommand> [options]");
+    }
     lines.push("");
 
     lines.push("COMMANDS:");
-    const commandList = this.getAll();
-    const maxCmdLen = Math.max(...commandList.map((c) => c.name.length));
-    for (const cmd of commandList) {
-      lines.push(`  ${cmd.name.padEnd(maxCmdLen + 2)}${cmd.description}`);
+    this.appendCommandList(lines, commandList);
+
+    lines.push("GLOBAL OPTIONS:");
+    for (const opt of this.globalOptions.options) {
+      const flag = this.formatOptionFlag(opt);
+      lines.push(`  ${flag.padEnd(FLAG_WIDTH)}${opt.description}`);
+    }
+    lines.push("");
+
+    this.appendCommandSections(lines, commandList, []);
+
+    lines.push("ENVIRONMENT:");
+    for (const env of this.globalOptions.envVars) {
+      lines.push(`  ${env.name.padEnd(20)}${env.description}`);
+    }
+    lines.push("");
+
+    for (const section of this.globalOptions.sections ?? []) {
+      lines.push(`${section.title}:`);
+      for (const line of section.lines) {
+        lines.push(`  ${line}`);
+      }
+      lines.push("");
     }
+
+    this.appendExamples(lines, commandList);
+
+    return lines.join("\n");
+  }
+
+  private generateGroupHelp({ command, path }: ResolvedCommand): string {
+    const lines: string[] = [];
+    const name = path.join(" ");
+    const subcommands = command.subcommands ?? [];
+
+    lines.push(`immich-ts ${name} - ${command.description}`);
     lines.push("");
+    lines.push("USAGE:");
+    if (command.handler) {
+      lines.push(`  immich-ts ${name} [options]`);
+    }
+    if (subcommands.length > 0) {
+      lines.push(`  immich-ts ${name} <command> [options]`);
+    }
+    lines.push("");
+
+    this.appendCommandSections(lines, [command], path.slice(0, -1));
 
     lines.push("GLOBAL OPTIONS:");
     for (const opt of this.globalOptions.options) {
       const flag = this.formatOptionFlag(opt);
-      lines.push(`  ${flag.padEnd(flagWidth)}${opt.description}`);
+      lines.push(`  ${flag.padEnd(FLAG_WIDTH)}${opt.description}`);
     }
     lines.push("");
 
-    for (const cmd of commandList) {
+    this.appendExamples(lines, [command]);
+
+    return lines.join("\n");
+  }
+
+  private appendCommandList(lines: string[], commands: CommandDefinition[]): void {
+    const maxCmdLen = Math.max(...commands.map((c) => c.name.length));
+    for (const cmd of commands) {
+      lines.push(`  ${cmd.name.padEnd(maxCmdLen + 2)}${cmd.description}`);
+    }
+    lines.push("");
+  }
+
+  /** Adds "<NAME> OPTIONS:" and "<NAME> COMMANDS:" sections for each command and its subcommands. */
+  private appendCommandSections(
+    lines: string[],
+    commands: CommandDefinition[],
+    parents: string[],
+  ): void {
+    for (const cmd of commands) {
+      const path = [...parents, cmd.name];
+      const title = path.join(" ").toUpperCase();
+
       if (cmd.options.length > 0) {
-        lines.push(`${cmd.name.toUpperCase()} OPTIONS:`);
+        lines.push(`${title} OPTIONS:`);
         for (const opt of cmd.options) {
           const flag = this.formatOptionFlag(opt);
           const reqMarker = opt.required ? " (required)" : "";
-          lines.push(`  ${flag.padEnd(flagWidth)}${opt.description}${reqMarker}`);
+          lines.push(`  ${flag.padEnd(FLAG_WIDTH)}${opt.description}${reqMarker}`);
         }
         lines.push("");
       }
-    }
 
-    lines.push("ENVIRONMENT:");
-    for (const env of this.globalOptions.envVars) {
-      lines.push(`  ${env.name.padEnd(20)}${env.description}`);
+      if (cmd.subcommands?.length) {
+        lines.push(`${title} COMMANDS:`);
+        this.appendCommandList(lines, cmd.subcommands);
+        this.appendCommandSections(lines, cmd.subcommands, path);
+      }
     }
-    lines.push("");
+  }
 
-    const allExamples = commandList.flatMap((cmd) => cmd.examples ?? []);
+  private appendExamples(lines: string[], commands: CommandDefinition[]): void {
+    const allExamples = this.walk(commands, []).flatMap(({ command }) => command.examples ?? []);
     if (allExamples.length > 0) {
       lines.push("EXAMPLES:");
       for (const example of allExamples) {
@@ -193,8 +351,30 @@ class CommandRegistry {
       }
       lines.push("");
     }
+  }
 
-    return lines.join("\n");
+  /** Lists commands depth-first with their full paths. */
+  private walk(
+    commands: CommandDefinition[],
+    parents: string[],
+  ): Array<{ command: CommandDefinition; path: string[] }> {
+    return commands.flatMap((command) => {
+      const path = [...parents, command.name];
+      return [{ command, path }, ...this.walk(command.subcommands ?? [], path)];
+    });
+  }
+
+  /** Returns the definitions along `path`, from the top-level command down. */
+  private commandChain(path: string[]): CommandDefinition[] {
+    const chain: CommandDefinition[] = [];
+    let commands = this.getAll();
+    for (const name of path) {
+      const command = commands.find((cmd) => cmd.name === name);
+      if (!command) break;
+      chain.push(command);
+      commands = command.subcommands ?? [];
+    }
+    return chain;
   }
 
   private formatOptionFlag(opt: CommandOption): string {
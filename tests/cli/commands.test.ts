@@ -53,6 +53,14 @@ describe("CLI Command Parsing", () => {
       expect(exitCode).toBe(0);
     });
 
+    it("should describe the accepted date formats", async () => {
+      const { output } = await runCommand(["--help"]);
+
+      expect(output).toContain("DATES:");
+      expect(output).toContain("last-month");
+      expect(output).toContain("--tz <zone>");
+    });
+
     it("should show help with -h", async () => {
       const { output, exitCode } = await runCommand(["-h"]);
 
@@ -120,6 +128,59 @@ describe("CLI Command Parsing", () => {
       expect(exitCode).toBe(1);
     });
 
+    it("should reject a --sequence-min below 2", async () => {
+      const { output, exitCode } = await runCommand(
+        ["stack", "--match", "sequence", "--sequence-min", "1"],
+        testEnv
+      );
+
+      expect(output).toContain("--sequence-min must be a whole number of at least 2");
+      expect(exitCode).toBe(1);
+    });
+
+    it("should reject a fractional --concurrency", async () => {
+      const { output, exitCode } = await runCommand(
+        ["stack", "--preset", "pixel", "--concurrency", "2.5"],
+        testEnv
+      );
+
+      expect(output).toContain("--concurrency must be a whole number of at least 1");
+      expect(exitCode).toBe(1);
+    });
+
+    it("should reject a fractional --retries", async () => {
+      const { output, exitCode } = await runCommand(
+        ["stack", "--preset", "pixel", "--retries", "1.5"],
+        testEnv
+      );
+
+      expect(output).toContain("--retries must be a whole number of at least 0");
+      expect(exitCode).toBe(1);
+    });
+
+    it("should run with --preset instead of --cover and --raw", async () => {
+      const { output } = await runCommand(
+        ["stack", "--preset", "pixel", "--dry-run"],
+        testEnv
+      );
+
+      expect(output).not.toContain("Missing required option");
+      expect(output).toContain("Preset:");
+      expect(output).toContain("PXL_");
+    });
+
+    it("should list presets with --list-presets", async () => {
+      const { output, exitCode } = await runCommand(
+        ["stack", "--list-presets"],
+        testEnv
+      );
+
+      expect(output).toContain("Stack presets:");
+      expect(output).toContain("pixel");
+      expect(output).toContain("canon");
+      expect(exitCode).toBe(0);
+    });
+
     it("should run when both --cover and --raw are provided", async () => {
       const { output } = await runCommand(
         ["stack", "--cover", "\\.jpg$", "--raw", "\\.dng$", "--dry-run"],
@@ -193,10 +254,42 @@ describe("CLI Command Parsing", () => {
         testEnv
       );
 
-      expect(output).toContain("Album ID:");
+      expect(output).toContain("Albums:");
       expect(output).toContain("abc123");
     });
 
+    it("should accept repeated scope filters", async () => {
+      const { output } = await runCommand(
+        [
+          "stack",
+          "--preset",
+          "sony",
+          "--album",
+          "Iceland",
+          "--album",
+          "abc123",
+          "--person",
+          "Alice",
+          "--tag",
+          "Travel/Iceland",
+          "--camera-model",
+          "ILCE-7M4",
+          "--path",
+          "/photos/2024/",
+          "--after",
+          "2024-01-01",
+        ],
+        testEnv
+      );
+
+      expect(output).toContain("Albums:         Iceland, abc123");
+      expect(output).toContain("People:         Alice");
+      expect(output).toContain("Tags:           Travel/Iceland");
+      expect(output).toContain("Camera:         ILCE-7M4");
+      expect(output).toContain("Path prefix:    /photos/2024/");
+      expect(output).toContain("After:");
+    });
+
     it("should accept --verbose flag", async () => {
       const { output } = await runCommand(
         ["stack", "--cover", "\\.jpg$", "--raw", "\\.dng$", "--verbose"],
@@ -226,6 +319,54 @@ describe("CLI Command Parsing", () => {
       expect(exitCode).toBe(1);
     });
 
+    it("should reject a reversed date range", async () => {
+      const { output, exitCode } = await runCommand(
+        [
+          "stack",
+          "--cover",
+          "\\.jpg$",
+          "--raw",
+          "\\.dng$",
+          "--after",
+          "2024-06-15",
+          "--before",
+          "2024-06-01",
+        ],
+        testEnv
+      );
+
+      expect(output).toContain("Invalid date range: --after 2024-06-15 is later than --before 2024-06-01");
+      expect(exitCode).toBe(1);
+    });
+
+    it("should reject an unknown --tz", async () => {
+      const { output, exitCode } = await runCommand(
+        ["stack", "--cover", "\\.jpg$", "--raw", "\\.dng$", "--tz", "Mars/Olympus"],
+        testEnv
+      );
+
+      expect(output).toContain('Invalid value for --tz: "Mars/Olympus"');
+      expect(exitCode).toBe(1);
+    });
+
+    it("should reject an unknown --existing policy", async () => {
+      const { output, exitCode } = await runCommand(
+        [
+          "stack",
+          "--cover",
+          "\\.jpg$",
+          "--raw",
+          "\\.dng$",
+          "--existing",
+          "merge",
+        ],
+        testEnv
+      );
+
+      expect(output).toContain('Invalid value for --existing: "merge"');
+      expect(exitCode).toBe(1);
+    });
+
     it("should reject invalid --before date format", async () => {
       const { output, exitCode } = await runCommand(
         [
@@ -243,6 +384,319 @@ describe("CLI Command Parsing", () => {
       expect(output).toContain("Invalid date format");
       expect(exitCode).toBe(1);
     });
+
+    it("should reject a missing --apply plan file", async () => {
+      const { output, exitCode } = await runCommand(
+        ["stack", "--apply", "does-not-exist.json"],
+        testEnv
+      );
+
+      expect(output).toContain("Plan file not found: does-not-exist.json");
+      expect(exitCode).toBe(1);
+    });
+  });
+});
+
+describe("stack-audit command validation", () => {
+  it("should require --cover or --preset", async () => {
+    const { output, exitCode } = await runCommand(["stack-audit"], testEnv);
+
+    expect(output).toContain("Missing required option: --cover (or use --preset)");
+    expect(exitCode).toBe(1);
+  });
+
+  it("should reject --raw, which only applies to stack", async () => {
+    const { output, exitCode } = await runCommand(
+      ["stack-audit", "--preset", "sony", "--raw", "\\.arw$"],
+      testEnv
+    );
+
+    expect(output).toContain("--raw");
+    expect(exitCode).toBe(1);
+  });
+});
+
+describe("unstack command validation", () => {
+  it("should require --manifest or a filter", async () => {
+    const { output, exitCode } = await runCommand(["unstack"], testEnv);
+
+    expect(output).toContain("Missing required option: --manifest");
+    expect(exitCode).toBe(1);
+  });
+
+  it("should reject --manifest combined with filters", async () => {
+    const { output, exitCode } = await runCommand(
+      ["unstack", "--manifest", "run.json", "--after", "2024-01-01"],
+      testEnv
+    );
+
+    expect(output).toContain("--manifest cannot be combined");
+    expect(exitCode).toBe(1);
+  });
+
+  it("should report a missing manifest file", async () => {
+    const { output, exitCode } = await runCommand(
+      ["unstack", "--manifest", "does-not-exist.json"],
+      testEnv
+    );
+
+    expect(output).toContain("Manifest not found: does-not-exist.json");
+    expect(exitCode).toBe(1);
+  });
+});
+
+describe("auto-album command validation", () => {
+  it("should require --sync for --remove-missing", async () => {
+    const { output, exitCode } = await runCommand(
+      [
+        "auto-album",
+        "--name",
+        "Rome",
+        "--after",
+        "2024-06-01",
+        "--before",
+        "2024-06-15",
+        "--location",
+        "Rome",
+        "--remove-missing",
+      ],
+      testEnv
+    );
+
+    expect(output).toContain("--remove-missing requires --sync");
+    expect(exitCode).toBe(1);
+  });
+});
+
+describe("auto-album coordinate filters", () => {
+  const base = ["auto-album", "--name", "Trip", "--after", "2024-06-01", "--before", "2024-06-15"];
+
+  it("should require a location or coordinate filter", async () => {
+    const { output, exitCode } = await runCommand(base, testEnv);
+
+    expect(output).toContain("Missing required option: --location");
+    expect(exitCode).toBe(1);
+  });
+
+  it("should require --radius with --near", async () => {
+    const { output, exitCode } = await runCommand([...base, "--near", "46.4,11.8"], testEnv);
+
+    expect(output).toContain("--near and --radius must be used together");
+    expect(exitCode).toBe(1);
+  });
+
+  it("should reject a malformed --bbox", async () => {
+    const { output, exitCode } = await runCommand([...base, "--bbox", "46,11,47"], testEnv);
+
+    expect(output).toContain('Invalid value for --bbox: "46,11,47"');
+    expect(exitCode).toBe(1);
+  });
+});
+
+describe("auto-album trip detection", () => {
+  it("should require --home with --detect-trips", async () => {
+    const { output, exitCode } = await runCommand(["auto-album", "--detect-trips"], testEnv);
+
+    expect(output).toContain("Missing required option: --home");
+    expect(exitCode).toBe(1);
+  });
+
+  it("should reject options --detect-trips would ignore", async () => {
+    const { output, exitCode } = await runCommand(
+      ["auto-album", "--detect-trips", "--home", "Berlin", "--location", "Rome", "--sync"],
+      testEnv
+    );
+
+    expect(output).toContain("--detect-trips cannot be combined with --location, --sync");
+    expect(exitCode).toBe(1);
+  });
+
+  it("should still require --name without --detect-trips", async () => {
+    const { output, exitCode } = await runCommand(
+      ["auto-album", "--after", "2024-06-01", "--before", "2024-06-15", "--location", "Rome"],
+      testEnv
+    );
+
+    expect(output).toContain("Missing required option: --name");
+    expect(exitCode).toBe(1);
+  });
+});
+
+describe("auto-album asset filters", () => {
+  const base = ["auto-album", "--name", "Kids", "--after", "2024-06-01", "--before", "2024-06-15"];
+
+  it("should reject an unknown --person-match mode", async () => {
+    const { output, exitCode } = await runCommand(
+      [...base, "--person", "Anna", "--person-match", "some"],
+      testEnv
+    );
+
+    expect(output).toContain('Invalid value for --person-match: "some". Expected one of: all, any');
+    expect(exitCode).toBe(1);
+  });
+
+  it("should require --shared-link for link options", async () => {
+    const { output, exitCode } = await runCommand(
+      [...base, "--location", "Rome", "--link-password", "secret"],
+      testEnv
+    );
+
+    expect(output).toContain("--link-expires and --link-password require --shared-link");
+    expect(exitCode).toBe(1);
+  });
+
+  it("should reject an unknown --cover", async () => {
+    const { output, exitCode } = await runCommand(
+      [...base, "--location", "Rome", "--cover", "middle"],
+      testEnv
+    );
+
+    expect(output).toContain('Invalid value for --cover: "middle"');
+    expect(exitCode).toBe(1);
+  });
+
+  it("should reject a --query-limit below 1", async () => {
+    const { output, exitCode } = await runCommand(
+      [...base, "--query", "beach sunset", "--query-limit", "0"],
+      testEnv
+    );
+
+    expect(output).toContain("--query-limit must be a whole number of at least 1");
+    expect(exitCode).toBe(1);
+  });
+});
+
+describe("auto-album chunking", () => {
+  it("should reject a --chunk-size below 1", async () => {
+    const { output, exitCode } = await runCommand(
+      [
+        "auto-album",
+        "--name",
+        "Trip",
+        "--after",
+        "2024-06-01",
+        "--before",
+        "2024-06-15",
+        "--location",
+        "Rome",
+        "--chunk-size",
+        "0",
+      ],
+      testEnv
+    );
+
+    expect(output).toContain("--chunk-size must be a whole number of at least 1");
+    expect(exitCode).toBe(1);
+  });
+  it("should reject a fractional --retries", async () => {
+    const { output, exitCode } = await runCommand(
+      [
+        "auto-album",
+        "--name",
+        "Trip",
+        "--after",
+        "2024-06-01",
+        "--before",
+        "2024-06-15",
+        "--location",
+        "Rome",
+        "--retries",
+        "1.5",
+      ],
+      testEnv
+    );
+
+    expect(output).toContain("--retries must be a whole number of at least 0");
+    expect(exitCode).toBe(1);
+  });
+});
+
+describe("auto-album grouping", () => {
+  const base = ["auto-album", "--after", "2024-01-01", "--before", "2024-12-31", "--location", "Rome"];
+
+  it("should reject an unknown --group-by period", async () => {
+    const { output, exitCode } = await runCommand(
+      [...base, "--name", "{year}", "--group-by", "decade"],
+      testEnv
+    );
+
+    expect(output).toContain('Invalid value for --group-by: "decade"');
+    expect(exitCode).toBe(1);
+  });
+
+  it("should require the period in the name template", async () => {
+    const { output, exitCode } = await runCommand(
+      [...base, "--name", "Rome {year}", "--group-by", "month"],
+      testEnv
+    );
+
+    expect(output).toContain("it must include {month}");
+    expect(exitCode).toBe(1);
+  });
+});
+
+describe("auto-album rules", () => {
+  it("should report a missing rules file", async () => {
+    const { output, exitCode } = await runCommand(
+      ["auto-album", "--rules", "missing-rules.yaml"],
+      testEnv
+    );
+
+    expect(output).toContain("Rules file not found: missing-rules.yaml");
+    expect(exitCode).toBe(1);
+  });
+
+  it("should reject --rules combined with --name", async () => {
+    const { output, exitCode } = await runCommand(
+      ["auto-album", "--rules", "albums.yaml", "--name", "Trip"],
+      testEnv
+    );
+
+    expect(output).toContain("--rules cannot be combined with --name or --detect-trips");
+    expect(exitCode).toBe(1);
+  });
+});
+
+describe("locations command", () => {
+  it("should reject an unknown --type", async () => {
+    const { output, exitCode } = await runCommand(["locations", "--type", "planet"], testEnv);
+
+    expect(output).toContain(
+      'Invalid value for --type: "planet". Expected one of: city, state, country, all'
+    );
+    expect(exitCode).toBe(1);
+  });
+});
+
+describe("auto-album calendar", () => {
+  it("should report a missing calendar file", async () => {
+    const { output, exitCode } = await runCommand(
+      ["auto-album", "--ics", "missing.ics", "--dry-run"],
+      testEnv
+    );
+
+    expect(output).toContain("Calendar file not found: missing.ics");
+    expect(exitCode).toBe(1);
+  });
+
+  it("should reject --ics combined with --name", async () => {
+    const { output, exitCode } = await runCommand(
+      ["auto-album", "--ics", "family.ics", "--name", "Trip"],
+      testEnv
+    );
+
+    expect(output).toContain("--ics cannot be combined with --name, --location or --group-by");
+    expect(exitCode).toBe(1);
+  });
+
+  it("should require --ics for event filters", async () => {
+    const { output, exitCode } = await runCommand(
+      ["auto-album", "--name", "Trip", "--ics-category", "Holiday"],
+      testEnv
+    );
+
+    expect(output).toContain("--ics-category and --ics-summary require --ics");
+    expect(exitCode).toBe(1);
   });
 });
 
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "bun:test";
+import {
+  eventAlbumNames,
+  eventLocations,
+  filterEvents,
+  parseCalendar,
+} from "../../src/commands/auto-album-ics.ts";
+
+const calendar = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "BEGIN:VEVENT",
+  "SUMMARY:Rome Vacation",
+  "DTSTART;VALUE=DATE:20240601",
+  "DTEND;VALUE=DATE:20240615",
+  "LOCATION:Hotel Roma\\, Via Veneto 1\\, Rome\\, Italy",
+  "CATEGORIES:Holiday,Family",
+  "BEGIN:VALARM",
+  "SUMMARY:Pack your bags",
+  "END:VALARM",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Anna & Ben's Wed",
+  " ding",
+  "DTSTART;TZID=Europe/Berlin:20240720T140000",
+  "DTEND;TZID=Europe/Berlin:20240721T020000",
+  "CATEGORIES:Wedding",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:School concert",
+  "DTSTART:20240912T170000Z",
+  "DURATION:PT2H",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Cancelled trip",
+  "DTSTART;VALUE=DATE:20240801",
+  "STATUS:CANCELLED",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Birthday",
+  "DTSTART;VALUE=DATE:20240301",
+  "RRULE:FREQ=YEARLY",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+describe("Calendar albums", () => {
+  describe("parseCalendar", () => {
+    const { events, recurring } = parseCalendar(calendar, "family.ics", "UTC");
+
+    it("should read all-day events with an exclusive end date", () => {
+      expect(events[0]).toMatchObject({
+        summary: "Rome Vacation",
+        after: "2024-06-01",
+        before: "2024-06-14",
+        allDay: true,
+        location: "Hotel Roma, Via Veneto 1, Rome, Italy",
+        categories: ["Holiday", "Family"],
+        line: 3,
+      });
+    });
+
+    it("should unfold lines and read times in the event's time zone", () => {
+      expect(events[1]).toMatchObject({
+        summary: "Anna & Ben's Wedding",
+        after: "2024-07-20T12:00:00.000Z",
+        before: "2024-07-20T23:59:59.999Z",
+        allDay: false,
+      });
+    });
+
+    it("should support UTC times with a duration", () => {
+      expect(events[2]).toMatchObject({
+        after: "2024-09-12T17:00:00.000Z",
+        before: "2024-09-12T18:59:59.999Z",
+      });
+    });
+
+    it("should drop cancelled events and list recurring ones", () => {
+      expect(events.map((event) => event.summary)).toEqual([
+        "Rome Vacation",
+        "Anna & Ben's Wedding",
+        "School concert",
+      ]);
+      expect(recurring).toEqual(["Birthday"]);
+    });
+
+    it("should report every invalid event with its line", () => {
+      const invalid = [
+        "BEGIN:VEVENT",
+        "SUMMARY:No start",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "SUMMARY:Moon trip",
+        "DTSTART;TZID=Moon/Base:20240601T100000",
+        "END:VEVENT",
+      ].join("\n");
+
+      expect(() => parseCalendar(invalid, "bad.ics")).toThrow(
+        'Invalid calendar file bad.ics:\n  bad.ics:1: event "No start": DTSTART is missing\n  bad.ics:4: event "Moon trip": unknown time zone "Moon/Base" in DTSTART'
+      );
+    });
+  });
+
+  it("should filter by category and summary", () => {
+    const { events } = parseCalendar(calendar, "family.ics", "UTC");
+
+    expect(filterEvents(events, { categories: ["holiday", "wedding"] })).toHaveLength(2);
+    expect(filterEvents(events, { categories: [], summary: /concert/ })).toHaveLength(1);
+    expect(filterEvents(events, { categories: ["Holiday"], summary: /concert/ })).toHaveLength(0);
+  });
+
+  describe("eventLocations", () => {
+    const index = { city: ["Rome", "Milan"], state: ["Lazio"], country: ["Italy"] };
+
+    it("should use the most specific known parts of an address", () => {
+      expect(eventLocations("Hotel Roma, Via Veneto 1, Rome, Italy", index)).toEqual(["Rome"]);
+      expect(eventLocations("Somewhere, Italy", index)).toEqual(["Italy"]);
+    });
+
+    it("should fall back to the whole value", () => {
+      expect(eventLocations("Grandma's house", index)).toEqual(["Grandma's house"]);
+      expect(eventLocations(undefined, index)).toEqual([]);
+    });
+  });
+
+  it("should add the start date to repeated summaries", () => {
+    const event = { allDay: true, before: "", categories: [], line: 1 };
+    const names = eventAlbumNames([
+      { ...event, summary: "Soccer", after: "2024-05-04" },
+      { ...event, summary: "Soccer", after: "2024-05-11" },
+      { ...event, summary: "Recital", after: "2024-05-12" },
+    ]);
+
+    expect(names).toEqual(["Soccer (2024-05-04)", "Soccer (2024-05-11)", "Recital"]);
+  });
+});
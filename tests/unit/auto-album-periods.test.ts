@@ -0,0 +1,74 @@
+import { describe, it, expect } from "bun:test";
+import {
+  formatAlbumName,
+  groupAssetsByPeriod,
+  periodOf,
+  validateNameTemplate,
+} from "../../src/commands/auto-album-periods.ts";
+
+describe("Album periods", () => {
+  describe("periodOf", () => {
+    it("should key days, months and years", () => {
+      expect(periodOf("2024-06-03", "day").key).toBe("2024-06-03");
+      expect(periodOf("2024-06-03", "month").key).toBe("2024-06");
+      expect(periodOf("2024-06-03", "year").key).toBe("2024");
+    });
+
+    it("should use ISO weeks", () => {
+      expect(periodOf("2024-06-03", "week")).toMatchObject({ key: "2024-W23", week: "23" });
+      expect(periodOf("2024-06-09", "week").key).toBe("2024-W23");
+      expect(periodOf("2024-06-10", "week").key).toBe("2024-W24");
+    });
+
+    it("should assign weeks around new year to their week-numbering year", () => {
+      expect(periodOf("2024-12-30", "week")).toMatchObject({ key: "2025-W01", year: "2025" });
+      expect(periodOf("2021-01-03", "week")).toMatchObject({ key: "2020-W53", year: "2020" });
+    });
+  });
+
+  describe("groupAssetsByPeriod", () => {
+    it("should group assets chronologically and skip undated ones", () => {
+      const groups = groupAssetsByPeriod(
+        [
+          { id: "c", localDate: "2024-07-02" },
+          { id: "a", localDate: "2024-06-30" },
+          { id: "b", localDate: "2024-06-01" },
+          { id: "d" },
+        ],
+        "month"
+      );
+
+      expect(groups.map((group) => [group.period.key, group.assetIds])).toEqual([
+        ["2024-06", ["a", "b"]],
+        ["2024-07", ["c"]],
+      ]);
+    });
+  });
+
+  describe("name templates", () => {
+    it("should fill in placeholders", () => {
+      const period = periodOf("2024-06-03", "month");
+
+      expect(formatAlbumName("{year}-{month} {location}", period, ["Rome"])).toBe("2024-06 Rome");
+      expect(formatAlbumName("Family {year}", periodOf("2023-05-01", "year"), [])).toBe(
+        "Family 2023"
+      );
+    });
+
+    it("should require the grouping placeholder", () => {
+      expect(() => validateNameTemplate("Family {year}", "month", [])).toThrow(
+        "it must include {month}"
+      );
+      expect(() => validateNameTemplate("{year}-{month}", "month", [])).not.toThrow();
+    });
+
+    it("should reject placeholders that don't fit the period", () => {
+      expect(() => validateNameTemplate("{year} {day}", "year", [])).toThrow(
+        "unknown placeholder {day}"
+      );
+      expect(() => validateNameTemplate("{year} {location}", "year", [])).toThrow(
+        "{location} placeholder requires --location"
+      );
+    });
+  });
+});
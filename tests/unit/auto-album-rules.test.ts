@@ -0,0 +1,139 @@
+import { describe, it, expect } from "bun:test";
+import { checkRuleNames, parseAlbumRules } from "../../src/commands/auto-album-rules.ts";
+import { OptionError } from "../../src/registry.ts";
+
+const yamlRules = `# Trips
+albums:
+  - name: Rome 2024
+    after: 2024-06-01
+    before: 2024-06-15
+    locations: [Rome, Vatican City]
+    people:
+      - Alice
+    exclude:
+      tags: [Work]
+    removeMissing: true
+
+  - name: Iceland
+    after: 2024-08-01
+    before: 2024-08-20
+    locations: [Iceland]
+`;
+
+function errorOf(fn: () => unknown): string {
+  try {
+    fn();
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+  throw new Error("Expected an error");
+}
+
+describe("Album rules", () => {
+  it("should parse a YAML rules file", () => {
+    const rules = parseAlbumRules(yamlRules, "albums.yaml");
+
+    expect(rules).toHaveLength(2);
+    expect(rules[0]).toEqual({
+      name: "Rome 2024",
+      after: "2024-06-01",
+      before: "2024-06-15",
+      locations: ["Rome", "Vatican City"],
+      people: ["Alice"],
+      tags: [],
+      exclude: { locations: [], people: [], tags: ["Work"] },
+      removeMissing: true,
+    });
+    expect(rules[1]!.removeMissing).toBe(false);
+  });
+
+  it("should parse a JSON list of rules", () => {
+    const rules = parseAlbumRules(
+      JSON.stringify([{ name: "Paris", after: "2024-05-01", before: "2024-05-03", tags: ["Travel"] }]),
+      "albums.json"
+    );
+
+    expect(rules[0]!.name).toBe("Paris");
+    expect(rules[0]!.tags).toEqual(["Travel"]);
+  });
+
+  it("should report every YAML error with its line number", () => {
+    const message = errorOf(() =>
+      parseAlbumRules(
+        yamlRules.replace("before: 2024-08-20", "before: soon").replace("people:", "persons:"),
+        "albums.yaml"
+      )
+    );
+
+    expect(message).toContain("albums.yaml:7: albums[0].persons unknown field");
+    expect(message).toContain('albums.yaml:15: albums[1].before expected a date such as 2024-06-01 or last-month, got "soon"');
+  });
+
+  it("should report JSON errors with line numbers", () => {
+    const json = JSON.stringify(
+      {
+        albums: [
+          { name: "Paris", after: "2024-05-01", before: "2024-05-03" },
+          { name: "Paris", after: "2024-05-01", before: "2024-05-03", exclude: { places: ["x"] } },
+        ],
+      },
+      null,
+      2
+    );
+    const message = errorOf(() => parseAlbumRules(json, "albums.json"));
+
+    expect(message).toContain('albums.json:9: albums[1].name duplicate album name "Paris"');
+    expect(message).toContain("albums.json:13: albums[1].exclude.places unknown field");
+  });
+
+  it("should reject files that aren't a list of rules", () => {
+    expect(errorOf(() => parseAlbumRules("name: Rome\n", "albums.yaml"))).toContain(
+      'expected a list of albums or an "albums" list'
+    );
+    expect(errorOf(() => parseAlbumRules("{", "albums.json"))).toContain(
+      "Invalid rules file albums.json"
+    );
+  });
+
+  it("should require dates in order", () => {
+    const message = errorOf(() =>
+      parseAlbumRules("- name: X\n  after: 2024-06-10\n  before: 2024-06-01\n", "albums.yaml")
+    );
+
+    expect(message).toContain("albums.yaml:3: [0].before is earlier than after (2024-06-10)");
+  });
+
+  it("should require at least one filter per rule", () => {
+    const message = errorOf(() =>
+      parseAlbumRules(yamlRules.replace("    locations: [Iceland]\n", ""), "albums.yaml")
+    );
+
+    expect(message).toContain(
+      "albums.yaml:13: albums[1] needs at least one of locations, people or tags"
+    );
+    expect(message).not.toContain("albums[0]");
+  });
+
+  it("should report unknown people and tags across all rules before running any", async () => {
+    const rules = parseAlbumRules(
+      yamlRules.replace("[Iceland]", "[Iceland]\n    people: [Bob]\n    tags: [Hiking]"),
+      "albums.yaml"
+    );
+    const known = new Set(["Alice"]);
+    const lookup = async (refs: string[]) =>
+      refs.map((ref) => {
+        if (!known.has(ref)) throw new OptionError(`Not found: "${ref}"`);
+        return ref;
+      });
+
+    const message = await checkRuleNames(rules, "albums.yaml", { people: lookup, tags: lookup }).then(
+      () => "",
+      (err: Error) => err.message
+    );
+
+    expect(message).toContain('Not found: "Bob" (used by Iceland)');
+    expect(message).toContain('Not found: "Work" (used by Rome 2024)');
+    expect(message).toContain('Not found: "Hiking" (used by Iceland)');
+    expect(message).not.toContain('"Alice"');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "bun:test";
+import {
+  chooseCoverAsset,
+  hasAlbumSettings,
+  validateCover,
+} from "../../src/commands/auto-album-settings.ts";
+
+const assets = [
+  { id: "b", isFavorite: true, localDateTime: "2024-06-03T10:00:00.000Z" },
+  { id: "a", isFavorite: false, localDateTime: "2024-06-01T10:00:00.000Z" },
+  { id: "c", isFavorite: true, localDateTime: "2024-06-05T10:00:00.000Z" },
+];
+
+describe("Album settings", () => {
+  describe("chooseCoverAsset", () => {
+    it("should pick the first and last asset by capture time", () => {
+      expect(chooseCoverAsset(assets, "first")).toBe("a");
+      expect(chooseCoverAsset(assets, "last")).toBe("c");
+    });
+
+    it("should pick a random favorite", () => {
+      expect(chooseCoverAsset(assets, "random-favorite", () => 0)).toBe("b");
+      expect(chooseCoverAsset(assets, "random-favorite", () => 0.99)).toBe("c");
+      expect(chooseCoverAsset([assets[1]!], "random-favorite")).toBeUndefined();
+    });
+
+    it("should only use an asset ID that is in the album", () => {
+      expect(chooseCoverAsset(assets, "b")).toBe("b");
+      expect(chooseCoverAsset(assets, "z")).toBeUndefined();
+    });
+  });
+
+  it("should accept asset IDs and cover keywords", () => {
+    expect(() => validateCover("random-favorite")).not.toThrow();
+    expect(() => validateCover("8e9c2a5e-0a4c-4a55-9b0e-6f0c8a0d2b7e")).not.toThrow();
+    expect(() => validateCover("middle")).toThrow('Invalid value for --cover: "middle"');
+  });
+
+  it("should detect when there is nothing to apply", () => {
+    const settings = { shareWith: [], role: "viewer" as const, serverUrl: "https://photos" };
+
+    expect(hasAlbumSettings(settings)).toBe(false);
+    expect(hasAlbumSettings({ ...settings, sharedLink: {} })).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "bun:test";
+import { centroid, describeTrip, detectTrips } from "../../src/commands/auto-album-trips.ts";
+import type { GeoAsset } from "../../src/commands/auto-album.ts";
+
+const berlin = { latitude: 52.52, longitude: 13.405 };
+const rome = { latitude: 41.9028, longitude: 12.4964 };
+const paris = { latitude: 48.8566, longitude: 2.3522 };
+
+function asset(
+  id: string,
+  takenAt: string,
+  place: { latitude: number; longitude: number } | null,
+  city?: string,
+  country?: string
+): GeoAsset {
+  return {
+    id,
+    originalFileName: `${id}.jpg`,
+    takenAt,
+    localDate: takenAt.slice(0, 10),
+    latitude: place?.latitude ?? null,
+    longitude: place?.longitude ?? null,
+    city,
+    country,
+  };
+}
+
+const options = { home: berlin, minDistanceKm: 50, gapMs: 48 * 60 * 60 * 1000, minAssets: 2 };
+
+describe("Trip detection", () => {
+  it("should cluster photos taken away from home into one trip", () => {
+    const trips = detectTrips(
+      [
+        asset("h1", "2024-06-01T10:00:00Z", berlin, "Berlin", "Germany"),
+        asset("r1", "2024-06-02T10:00:00Z", rome, "Rome", "Italy"),
+        asset("r2", "2024-06-03T10:00:00Z", rome, "Rome", "Italy"),
+        asset("r3", "2024-06-04T10:00:00Z", rome, "Rome", "Italy"),
+        asset("h2", "2024-06-05T10:00:00Z", berlin, "Berlin", "Germany"),
+      ],
+      options
+    );
+
+    expect(trips).toHaveLength(1);
+    expect(trips[0]!.assetIds).toEqual(["r1", "r2", "r3"]);
+    expect(trips[0]!.name).toBe("Rome (2024-06-02 to 2024-06-04)");
+  });
+
+  it("should split trips at a photo taken at home", () => {
+    const trips = detectTrips(
+      [
+        asset("r1", "2024-06-02T10:00:00Z", rome),
+        asset("r2", "2024-06-02T12:00:00Z", rome),
+        asset("h1", "2024-06-02T20:00:00Z", berlin),
+        asset("p1", "2024-06-03T10:00:00Z", paris),
+        asset("p2", "2024-06-03T12:00:00Z", paris),
+      ],
+      options
+    );
+
+    expect(trips.map((trip) => trip.assetIds)).toEqual([
+      ["r1", "r2"],
+      ["p1", "p2"],
+    ]);
+  });
+
+  it("should split trips at long gaps and drop short ones", () => {
+    const trips = detectTrips(
+      [
+        asset("r1", "2024-06-02T10:00:00Z", rome),
+        asset("r2", "2024-06-02T12:00:00Z", rome),
+        asset("r3", "2024-06-10T12:00:00Z", rome),
+      ],
+      options
+    );
+
+    expect(trips.map((trip) => trip.assetIds)).toEqual([["r1", "r2"]]);
+  });
+
+  it("should ignore assets without GPS", () => {
+    const trips = detectTrips(
+      [
+        asset("r1", "2024-06-02T10:00:00Z", rome),
+        asset("n1", "2024-06-02T11:00:00Z", null),
+        asset("r2", "2024-06-02T12:00:00Z", rome),
+      ],
+      options
+    );
+
+    expect(trips.map((trip) => trip.assetIds)).toEqual([["r1", "r2"]]);
+  });
+});
+
+describe("Trip names", () => {
+  it("should fall back to the country when no city dominates", () => {
+    const trip = describeTrip([
+      asset("1", "2024-06-02T10:00:00Z", rome, "Rome", "Italy"),
+      asset("2", "2024-06-03T10:00:00Z", rome, "Florence", "Italy"),
+      asset("3", "2024-06-04T10:00:00Z", rome, "Venice", "Italy"),
+    ]);
+
+    expect(trip.name).toBe("Italy (2024-06-02 to 2024-06-04)");
+  });
+
+  it("should show a single date for one-day trips", () => {
+    const trip = describeTrip([asset("1", "2024-06-02T10:00:00Z", rome, "Rome", "Italy")]);
+
+    expect(trip.name).toBe("Rome (2024-06-02)");
+  });
+});
+
+describe("Home position", () => {
+  it("should average every position and skip assets without GPS", () => {
+    expect(
+      centroid([
+        { latitude: 52, longitude: 13 },
+        { latitude: null, longitude: null },
+        { latitude: 53, longitude: 14 },
+        {},
+      ])
+    ).toEqual({ latitude: 52.5, longitude: 13.5 });
+  });
+
+  it("should return undefined without any position", () => {
+    expect(centroid([{ latitude: null, longitude: 13 }])).toBeUndefined();
+  });
+});
@@ -1,12 +1,15 @@
 import { describe, it, expect } from "bun:test";
-
-function parseDate(dateStr: string): string {
-  const date = new Date(dateStr);
-  if (isNaN(date.getTime())) {
-    throw new Error(`Invalid date format: ${dateStr}. Use ISO format (YYYY-MM-DD)`);
-  }
-  return date.toISOString();
-}
+import { Error as BulkIdError } from "@immich/sdk";
+import {
+  diffAlbumAssets,
+  filterByCoordinates,
+  hasAssetFilter,
+  scopeFilters,
+  reportChunkFailures,
+  updateAlbumInChunks,
+  type AssetScope,
+} from "../../src/commands/auto-album.ts";
+import { parseDate } from "../../src/dates.ts";
 
 function formatAssetCount(count: number): string {
   return `${count} asset${count !== 1 ? "s" : ""}`;
@@ -23,22 +26,24 @@ function albumExistsByName(albums: MockAlbum[], name: string): boolean {
 describe("Auto-Album Utilities", () => {
   describe("parseDate", () => {
     it("should parse valid ISO date strings", () => {
-      expect(parseDate("2024-06-01")).toBe("2024-06-01T00:00:00.000Z");
+      expect(parseDate("2024-06-01", "start", { timeZone: "UTC" })).toBe(
+        "2024-06-01T00:00:00.000Z"
+      );
     });
 
     it("should parse dates with time", () => {
-      const result = parseDate("2024-06-15T10:30:00Z");
+      const result = parseDate("2024-06-15T10:30:00Z", "start");
       expect(result).toContain("2024-06-15");
     });
 
     it("should throw on invalid date format", () => {
-      expect(() => parseDate("not-a-date")).toThrow(
-        "Invalid date format: not-a-date. Use ISO format (YYYY-MM-DD)"
+      expect(() => parseDate("not-a-date", "start")).toThrow(
+        "Invalid date format: not-a-date. Use YYYY-MM-DD"
       );
     });
 
     it("should throw on empty string", () => {
-      expect(() => parseDate("")).toThrow();
+      expect(() => parseDate("", "start")).toThrow();
     });
   });
 
@@ -154,3 +159,185 @@ describe("Location Search Logic", () => {
     expect(allSearches).toHaveLength(6);
   });
 });
+
+describe("Album Sync", () => {
+  it("should add only the matches the album is missing", () => {
+    const diff = diffAlbumAssets(new Set(["a", "b"]), new Set(["a", "b", "c"]), false);
+
+    expect(diff.toAdd).toEqual(["c"]);
+    expect(diff.toRemove).toEqual([]);
+    expect(diff.unchanged).toBe(2);
+    expect(diff.kept).toBe(0);
+  });
+
+  it("should keep assets that no longer match unless asked to remove them", () => {
+    const diff = diffAlbumAssets(new Set(["a", "old"]), new Set(["a"]), false);
+
+    expect(diff.toRemove).toEqual([]);
+    expect(diff.kept).toBe(1);
+  });
+
+  it("should remove assets that no longer match with removeMissing", () => {
+    const diff = diffAlbumAssets(new Set(["a", "old"]), new Set(["a", "new"]), true);
+
+    expect(diff.toAdd).toEqual(["new"]);
+    expect(diff.toRemove).toEqual(["old"]);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.kept).toBe(0);
+  });
+});
+
+describe("Coordinate Filters", () => {
+  it("should match assets inside the filter and count assets without GPS", () => {
+    const assets = [
+      { id: "1", originalFileName: "in.jpg", latitude: 46.5, longitude: 11.8 },
+      { id: "2", originalFileName: "out.jpg", latitude: 40, longitude: 11.8 },
+      { id: "3", originalFileName: "no-gps.jpg", latitude: null, longitude: null },
+      { id: "4", originalFileName: "no-exif.jpg" },
+    ];
+
+    const result = filterByCoordinates(assets, {
+      label: "north of 45",
+      contains: (point) => point.latitude > 45,
+    });
+
+    expect(result.matched.map((asset) => asset.id)).toEqual(["1"]);
+    expect(result.notEvaluated).toBe(2);
+  });
+});
+
+describe("Scope Filters", () => {
+  const scope: AssetScope = {
+    personIds: ["p1", "p2"],
+    personMatch: "all",
+    tagIds: ["t1"],
+    make: "Sony",
+    favoriteOnly: true,
+  };
+
+  it("should search all people together by default", () => {
+    expect(scopeFilters(scope)).toEqual([
+      { tagIds: ["t1"], make: "Sony", isFavorite: true, personIds: ["p1", "p2"] },
+    ]);
+  });
+
+  it("should search each person separately when any person matches", () => {
+    const filters = scopeFilters({ ...scope, personMatch: "any" });
+
+    expect(filters.map((filter) => filter.personIds)).toEqual([["p1"], ["p2"]]);
+    expect(filters[1]).toMatchObject({ tagIds: ["t1"], make: "Sony", isFavorite: true });
+  });
+
+  it("should leave out unused criteria", () => {
+    expect(
+      scopeFilters({ personIds: [], personMatch: "any", tagIds: [], favoriteOnly: false })
+    ).toEqual([{}]);
+    expect(scopeFilters()).toEqual([{}]);
+  });
+});
+
+describe("Asset Filters", () => {
+  const none = {
+    locations: [],
+    people: [],
+    tags: [],
+    exclude: { locations: [], people: [], tags: [] },
+  };
+
+  it("should treat a date range alone as unfiltered", () => {
+    expect(hasAssetFilter(none)).toBe(false);
+    expect(hasAssetFilter({ ...none, favoriteOnly: false })).toBe(false);
+  });
+
+  it("should count locations and the shared filters", () => {
+    expect(hasAssetFilter({ ...none, locations: ["Rome"] })).toBe(true);
+    expect(hasAssetFilter({ ...none, people: ["Alice"] })).toBe(true);
+    expect(hasAssetFilter({ ...none, cameraMake: "Sony" })).toBe(true);
+    expect(hasAssetFilter({ ...none, exclude: { ...none.exclude, locations: ["Home"] } })).toBe(
+      true
+    );
+  });
+});
+
+describe("Chunked Album Updates", () => {
+  const ids = ["a", "b", "c", "d", "e"];
+  const options = { chunkSize: 2, retries: 1, action: "add" as const };
+
+  it("should send the assets in chunks", async () => {
+    const chunks: string[][] = [];
+    const result = await updateAlbumInChunks(
+      ids,
+      async (chunk) => {
+        chunks.push(chunk);
+        return chunk.map((id) => ({ id, success: true }));
+      },
+      options
+    );
+
+    expect(chunks).toEqual([["a", "b"], ["c", "d"], ["e"]]);
+    expect(result).toEqual({ done: 5, rejected: [] });
+  });
+
+  it("should count assets a retried chunk finds already added", async () => {
+    let calls = 0;
+    const result = await updateAlbumInChunks(
+      ["a", "b"],
+      async (chunk) => {
+        calls++;
+        if (calls === 1) {
+          throw new TypeError("fetch failed");
+        }
+        return chunk.map((id) => ({ id, success: false, error: BulkIdError.Duplicate }));
+      },
+      options
+    );
+
+    expect(calls).toBe(2);
+    expect(result).toEqual({ done: 2, rejected: [] });
+  });
+
+  it("should stop at the first chunk that keeps failing", async () => {
+    const result = await updateAlbumInChunks(
+      ids,
+      async (chunk) => {
+        if (chunk.includes("c")) {
+          throw new Error("Payload Too Large");
+        }
+        return chunk.map((id) => ({ id, success: true }));
+      },
+      options
+    );
+
+    expect(result).toEqual({ done: 2, rejected: [], error: "Payload Too Large" });
+  });
+
+  it("should only count the error that means done for each action", async () => {
+    const send = async (chunk: string[]) =>
+      chunk.map((id) => ({
+        id,
+        success: false,
+        error: id === "a" ? BulkIdError.Duplicate : BulkIdError.NotFound,
+      }));
+
+    const added = await updateAlbumInChunks(["a", "b"], send, options);
+    const removed = await updateAlbumInChunks(["a", "b"], send, { ...options, action: "remove" });
+
+    expect(added).toEqual({ done: 1, rejected: [{ id: "b", reason: "not_found" }] });
+    expect(removed).toEqual({ done: 1, rejected: [{ id: "a", reason: "duplicate" }] });
+  });
+
+  it("should turn refused assets into an error", async () => {
+    const result = await updateAlbumInChunks(
+      ["a", "b"],
+      async (chunk) =>
+        chunk.map((id) =>
+          id === "a" ? { id, success: true } : { id, success: false, error: BulkIdError.NoPermission }
+        ),
+      options
+    );
+
+    expect(result.done).toBe(1);
+    expect(reportChunkFailures(result)).toBe("1 asset refused by the server");
+    expect(reportChunkFailures({ done: 2, rejected: [] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "bun:test";
+import { parseDate, parseDateRange, validateTimeZone } from "../../src/dates.ts";
+
+const now = new Date("2024-03-10T12:00:00Z");
+
+describe("Dates", () => {
+  describe("plain dates", () => {
+    it("should cover the whole day in the time zone", () => {
+      const tokyo = { timeZone: "Asia/Tokyo" };
+
+      expect(parseDate("2024-06-15", "start", tokyo)).toBe("2024-06-14T15:00:00.000Z");
+      expect(parseDate("2024-06-15", "end", tokyo)).toBe("2024-06-15T14:59:59.999Z");
+    });
+
+    it("should handle days next to a DST change", () => {
+      const berlin = { timeZone: "Europe/Berlin" };
+
+      expect(parseDate("2024-03-30", "end", berlin)).toBe("2024-03-30T22:59:59.999Z");
+      expect(parseDate("2024-03-31", "start", berlin)).toBe("2024-03-30T23:00:00.000Z");
+    });
+
+    it("should reject dates that don't exist", () => {
+      expect(() => parseDate("2024-02-30", "start")).toThrow("Invalid date format: 2024-02-30");
+    });
+  });
+
+  describe("date-times", () => {
+    it("should keep an explicit offset", () => {
+      expect(parseDate("2024-01-15T10:30:00+02:00", "end", { timeZone: "Asia/Tokyo" })).toBe(
+        "2024-01-15T08:30:00.000Z"
+      );
+    });
+
+    it("should read times without an offset in the time zone", () => {
+      expect(parseDate("2024-06-15T10:30", "start", { timeZone: "Asia/Tokyo" })).toBe(
+        "2024-06-15T01:30:00.000Z"
+      );
+    });
+  });
+
+  describe("relative dates", () => {
+    const utc = { timeZone: "UTC", now };
+
+    it("should resolve days and weeks ago", () => {
+      expect(parseDate("yesterday", "end", utc)).toBe("2024-03-09T23:59:59.999Z");
+      expect(parseDate("7d", "start", utc)).toBe("2024-03-03T00:00:00.000Z");
+      expect(parseDate("2w", "start", utc)).toBe("2024-02-25T00:00:00.000Z");
+    });
+
+    it("should cover whole months and years", () => {
+      expect(parseDate("last-month", "start", utc)).toBe("2024-02-01T00:00:00.000Z");
+      expect(parseDate("last-month", "end", utc)).toBe("2024-02-29T23:59:59.999Z");
+      expect(parseDate("last-year", "end", utc)).toBe("2023-12-31T23:59:59.999Z");
+    });
+
+    it("should use today in the time zone", () => {
+      const lateEvening = new Date("2024-03-10T23:30:00Z");
+
+      expect(parseDate("today", "start", { timeZone: "Asia/Tokyo", now: lateEvening })).toBe(
+        "2024-03-10T15:00:00.000Z"
+      );
+    });
+  });
+
+  describe("parseDateRange", () => {
+    it("should include the --before day", () => {
+      expect(parseDateRange("2024-06-01", "2024-06-01", { timeZone: "UTC" })).toEqual({
+        after: "2024-06-01T00:00:00.000Z",
+        before: "2024-06-01T23:59:59.999Z",
+      });
+    });
+
+    it("should reject reversed ranges", () => {
+      expect(() => parseDateRange("2024-06-15", "2024-06-01")).toThrow(
+        "Invalid date range: --after 2024-06-15 is later than --before 2024-06-01"
+      );
+    });
+  });
+
+  it("should validate time zones", () => {
+    expect(validateTimeZone("Asia/Tokyo")).toBe("Asia/Tokyo");
+    expect(() => validateTimeZone("Mars/Olympus")).toThrow('Invalid value for --tz: "Mars/Olympus"');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "bun:test";
+import {
+  distanceKm,
+  isInBoundingBox,
+  parseBoundingBox,
+  parseCoordinates,
+} from "../../src/geo.ts";
+
+describe("Coordinate parsing", () => {
+  it("should parse lat,lon pairs", () => {
+    expect(parseCoordinates("41.9028, 12.4964", "near")).toEqual({
+      latitude: 41.9028,
+      longitude: 12.4964,
+    });
+  });
+
+  it("should reject malformed or out-of-range coordinates", () => {
+    expect(() => parseCoordinates("41.9", "near")).toThrow("Expected <lat,lon>");
+    expect(() => parseCoordinates("abc,12", "near")).toThrow("Expected <lat,lon>");
+    expect(() => parseCoordinates("91,12", "near")).toThrow("Latitude must be within ±90");
+  });
+
+  it("should parse bounding boxes", () => {
+    expect(parseBoundingBox("46.0,11.0,47.0,12.5", "bbox")).toEqual({
+      minLatitude: 46,
+      minLongitude: 11,
+      maxLatitude: 47,
+      maxLongitude: 12.5,
+    });
+  });
+
+  it("should reject boxes with minLat above maxLat", () => {
+    expect(() => parseBoundingBox("47,11,46,12", "bbox")).toThrow(
+      "minLat is greater than maxLat"
+    );
+  });
+});
+
+describe("Distance and containment", () => {
+  it("should compute great-circle distances", () => {
+    const rome = { latitude: 41.9028, longitude: 12.4964 };
+    const paris = { latitude: 48.8566, longitude: 2.3522 };
+
+    expect(distanceKm(rome, rome)).toBe(0);
+    expect(distanceKm(rome, paris)).toBeGreaterThan(1100);
+    expect(distanceKm(rome, paris)).toBeLessThan(1110);
+  });
+
+  it("should check bounding boxes, including ones crossing the antimeridian", () => {
+    const box = parseBoundingBox("46,11,47,12.5", "bbox");
+    expect(isInBoundingBox({ latitude: 46.5, longitude: 11.8 }, box)).toBe(true);
+    expect(isInBoundingBox({ latitude: 45.9, longitude: 11.8 }, box)).toBe(false);
+
+    const fiji = parseBoundingBox("-21,177,-12,-178", "bbox");
+    expect(isInBoundingBox({ latitude: -17.7, longitude: 178.1 }, fiji)).toBe(true);
+    expect(isInBoundingBox({ latitude: -17.7, longitude: -179 }, fiji)).toBe(true);
+    expect(isInBoundingBox({ latitude: -17.7, longitude: 170 }, fiji)).toBe(false);
+  });
+});
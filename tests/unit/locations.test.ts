@@ -0,0 +1,37 @@
+import { describe, it, expect } from "bun:test";
+import {
+  matchLocationValues,
+  normalizeLocation,
+  suggestLocations,
+} from "../../src/commands/locations.ts";
+
+const cities = ["Rome", "Città del Vaticano", "Reykjavík", "Florence", "Milan"];
+
+describe("Locations", () => {
+  it("should ignore case and diacritics", () => {
+    expect(normalizeLocation("  Città del Vaticano ")).toBe("citta del vaticano");
+    expect(normalizeLocation("REYKJAVÍK")).toBe("reykjavik");
+  });
+
+  it("should match library values regardless of spelling", () => {
+    expect(matchLocationValues("citta del vaticano", cities)).toEqual(["Città del Vaticano"]);
+    expect(matchLocationValues("reykjavik", cities)).toEqual(["Reykjavík"]);
+    expect(matchLocationValues("Vatican", cities)).toEqual([]);
+  });
+
+  describe("suggestLocations", () => {
+    it("should suggest values with a small typo", () => {
+      expect(suggestLocations("Roma", cities)).toEqual(["Rome"]);
+      expect(suggestLocations("Florance", cities)).toEqual(["Florence"]);
+    });
+
+    it("should suggest values sharing a word stem", () => {
+      expect(suggestLocations("Vatican City", cities)).toEqual(["Città del Vaticano"]);
+    });
+
+    it("should return nothing for unrelated terms and respect the limit", () => {
+      expect(suggestLocations("Tokyo", cities)).toEqual([]);
+      expect(suggestLocations("R", ["Rome", "Rio", "Riga"], 2)).toHaveLength(2);
+    });
+  });
+});
@@ -1,117 +1,89 @@
 import { describe, it, expect } from "bun:test";
-
-interface MockAsset {
-  id: string;
-  originalFileName: string;
-  stack?: { id: string } | null;
-}
-
-interface AssetPair {
-  coverAssetId: string;
-  coverFileName: string;
-  rawAssetId: string;
-  rawFileName: string;
-  stem: string;
-}
-
-function getFileStem(fileName: string): string {
-  const lastDot = fileName.lastIndexOf(".");
-  if (lastDot === -1) return fileName;
-  return fileName.substring(0, lastDot);
+import { AssetTypeEnum, AssetVisibility, type AssetResponseDto } from "@immich/sdk";
+import {
+  chooseCover,
+  findSequenceGroups,
+  findStackGroups,
+  buildAssetSearch,
+  findTimeGroups,
+  indexStacks,
+  parseExposureTime,
+  resolveExistingStacks,
+  toAssetData,
+  type AssetData,
+  type ExistingStack,
+  type ExistingStackPolicy,
+  type SequenceOptions,
+} from "../../src/commands/stack.ts";
+
+interface MockAsset extends AssetData {
+  stack?: { id: string; primaryAssetId?: string } | null;
 }
 
-interface MatchingResult {
-  pairs: AssetPair[];
-  skippedNoMatch: number;
-  skippedAlreadyStacked: number;
-}
-
-function findMatchingPairs(
-  assets: MockAsset[],
-  coverPattern: RegExp,
-  rawPattern: RegExp
-): MatchingResult {
-  const stemToAssets = new Map<
-    string,
-    { cover?: string; raw: string[] }
-  >();
+function buildStackIndex(assets: MockAsset[]): Map<string, ExistingStack> {
+  const stacksById = new Map<string, ExistingStack>();
+  const stacksByAssetId = new Map<string, ExistingStack>();
 
   for (const asset of assets) {
-    const stem = getFileStem(asset.originalFileName);
-    const isCover = coverPattern.test(asset.originalFileName);
-    const isRaw = rawPattern.test(asset.originalFileName);
-
-    if (!stemToAssets.has(stem)) {
-      stemToAssets.set(stem, { cover: undefined, raw: [] });
-    }
-    const entry = stemToAssets.get(stem)!;
-
-    if (isCover) {
-      entry.cover = asset.id;
-    } else if (isRaw) {
-      entry.raw.push(asset.id);
+    if (!asset.stack) continue;
+    let existing = stacksById.get(asset.stack.id);
+    if (!existing) {
+      existing = {
+        id: asset.stack.id,
+        primaryAssetId: asset.stack.primaryAssetId ?? asset.id,
+        assetIds: [],
+      };
+      stacksById.set(asset.stack.id, existing);
     }
+    existing.assetIds.push(asset.id);
+    stacksByAssetId.set(asset.id, existing);
   }
 
-  const pairs: AssetPair[] = [];
-  let skippedAlreadyStacked = 0;
-  let skippedNoMatch = 0;
-
-  for (const [stem, assetsGroup] of stemToAssets) {
-    if (assetsGroup.cover && assetsGroup.raw.length > 0) {
-      for (const rawId of assetsGroup.raw) {
-        const coverAsset = assets.find((a) => a.id === assetsGroup.cover);
-        const rawAsset = assets.find((a) => a.id === rawId);
-
-        if (!coverAsset || !rawAsset) continue;
-
-        if (coverAsset.stack || rawAsset.stack) {
-          skippedAlreadyStacked++;
-          continue;
-        }
-
-        pairs.push({
-          coverAssetId: assetsGroup.cover,
-          coverFileName: coverAsset.originalFileName,
-          rawAssetId: rawId,
-          rawFileName: rawAsset.originalFileName,
-          stem,
-        });
-      }
-    } else {
-      if (!assetsGroup.cover && assetsGroup.raw.length > 0) {
-        skippedNoMatch += assetsGroup.raw.length;
-      }
-      if (assetsGroup.cover && assetsGroup.raw.length === 0) {
-        skippedNoMatch++;
-      }
-    }
-  }
+  return stacksByAssetId;
+}
 
-  return { pairs, skippedNoMatch, skippedAlreadyStacked };
+async function findMatchingGroups(
+  assets: MockAsset[],
+  coverPattern: RegExp,
+  rawPattern: RegExp,
+  policy: ExistingStackPolicy = "skip"
+) {
+  const result = await findStackGroups(assets, {
+    coverPattern,
+    rawPattern,
+    coverSelection: { strategy: "last", extensionPriority: [] },
+    sameDirectory: true,
+    verbose: false,
+  });
+  const resolved = resolveExistingStacks(result.groups, buildStackIndex(assets), policy);
+  return {
+    groups: resolved.groups,
+    skippedNoMatch: result.skippedNoMatch,
+    skippedAlreadyStacked: resolved.skippedAlreadyStacked,
+  };
 }
 
-describe("Pair Matching Algorithm", () => {
+describe("Stack Group Matching Algorithm", () => {
   const coverPattern = /\.(jpg|jpeg)$/i;
   const rawPattern = /\.dng$/i;
 
   describe("Basic matching", () => {
-    it("should match a simple pair", () => {
+    it("should match a simple pair", async () => {
       const assets: MockAsset[] = [
         { id: "1", originalFileName: "IMG_001.jpg" },
         { id: "2", originalFileName: "IMG_001.dng" },
       ];
 
-      const result = findMatchingPairs(assets, coverPattern, rawPattern);
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern);
 
-      expect(result.pairs).toHaveLength(1);
-      expect(result.pairs[0]!.coverAssetId).toBe("1");
-      expect(result.pairs[0]!.rawAssetId).toBe("2");
+      expect(result.groups).toHaveLength(1);
+      expect(result.groups[0]!.cover.assetId).toBe("1");
+      expect(result.groups[0]!.members.map((m) => m.assetId)).toEqual(["2"]);
       expect(result.skippedAlreadyStacked).toBe(0);
       expect(result.skippedNoMatch).toBe(0);
     });
 
-    it("should match multiple pairs with same stem", () => {
+    it("should create one group per stem", async () => {
       const assets: MockAsset[] = [
         { id: "1", originalFileName: "IMG_001.jpg" },
         { id: "2", originalFileName: "IMG_001.dng" },
@@ -119,14 +91,14 @@ describe("Pair Matching Algorithm", () => {
         { id: "4", originalFileName: "IMG_002.dng" },
       ];
 
-      const result = findMatchingPairs(assets, coverPattern, rawPattern);
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern);
 
-      expect(result.pairs).toHaveLength(2);
-      expect(result.pairs[0]!.stem).toBe("IMG_001");
-      expect(result.pairs[1]!.stem).toBe("IMG_002");
+      expect(result.groups).toHaveLength(2);
+      expect(result.groups[0]!.stem).toBe("IMG_001");
+      expect(result.groups[1]!.stem).toBe("IMG_002");
     });
 
-    it("should handle multiple raw files for same cover", () => {
+    it("should put multiple raw files for the same cover into one group", async () => {
       const assets: MockAsset[] = [
         { id: "1", originalFileName: "IMG_001.jpg" },
         { id: "2", originalFileName: "IMG_001.dng" },
@@ -134,127 +106,250 @@ describe("Pair Matching Algorithm", () => {
       ];
 
       const rawPatternExtended = /\.(dng|arw)$/i;
-      const result = findMatchingPairs(assets, coverPattern, rawPatternExtended);
-
-      expect(result.pairs).toHaveLength(2);
-      expect(result.pairs[0]!.rawFileName).toBe("IMG_001.dng");
-      expect(result.pairs[1]!.rawFileName).toBe("IMG_001.arw");
+      const result = await findMatchingGroups(assets, coverPattern, rawPatternExtended);
+
+      expect(result.groups).toHaveLength(1);
+      expect(result.groups[0]!.cover.fileName).toBe("IMG_001.jpg");
+      expect(result.groups[0]!.members.map((m) => m.fileName)).toEqual([
+        "IMG_001.dng",
+        "IMG_001.arw",
+      ]);
     });
   });
 
   describe("Non-matching scenarios", () => {
-    it("should skip when only cover exists", () => {
+    it("should skip when only cover exists", async () => {
       const assets: MockAsset[] = [
         { id: "1", originalFileName: "IMG_001.jpg" },
       ];
 
-      const result = findMatchingPairs(assets, coverPattern, rawPattern);
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern);
 
-      expect(result.pairs).toHaveLength(0);
+      expect(result.groups).toHaveLength(0);
       expect(result.skippedNoMatch).toBe(1);
     });
 
-    it("should skip when only raw exists", () => {
+    it("should skip when only raw exists", async () => {
       const assets: MockAsset[] = [
         { id: "1", originalFileName: "IMG_001.dng" },
       ];
 
-      const result = findMatchingPairs(assets, coverPattern, rawPattern);
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern);
 
-      expect(result.pairs).toHaveLength(0);
+      expect(result.groups).toHaveLength(0);
       expect(result.skippedNoMatch).toBe(1);
     });
 
-    it("should skip files that don't match either pattern", () => {
+    it("should skip files that don't match either pattern", async () => {
       const assets: MockAsset[] = [
         { id: "1", originalFileName: "IMG_001.mp4" },
         { id: "2", originalFileName: "IMG_001.jpg" },
         { id: "3", originalFileName: "IMG_001.dng" },
       ];
 
-      const result = findMatchingPairs(assets, coverPattern, rawPattern);
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern);
 
-      expect(result.pairs).toHaveLength(1);
+      expect(result.groups).toHaveLength(1);
       expect(result.skippedNoMatch).toBe(0);
     });
   });
 
   describe("Already stacked assets", () => {
-    it("should skip already stacked cover asset", () => {
+    it("should skip already stacked cover asset", async () => {
       const assets: MockAsset[] = [
         { id: "1", originalFileName: "IMG_001.jpg", stack: { id: "stack1" } },
         { id: "2", originalFileName: "IMG_001.dng" },
       ];
 
-      const result = findMatchingPairs(assets, coverPattern, rawPattern);
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern);
 
-      expect(result.pairs).toHaveLength(0);
+      expect(result.groups).toHaveLength(0);
       expect(result.skippedAlreadyStacked).toBe(1);
     });
 
-    it("should skip already stacked raw asset", () => {
+    it("should skip already stacked raw asset", async () => {
       const assets: MockAsset[] = [
         { id: "1", originalFileName: "IMG_001.jpg" },
         { id: "2", originalFileName: "IMG_001.dng", stack: { id: "stack1" } },
       ];
 
-      const result = findMatchingPairs(assets, coverPattern, rawPattern);
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern);
+
+      expect(result.groups).toHaveLength(0);
+      expect(result.skippedAlreadyStacked).toBe(1);
+    });
+
+    it("should extend a stack that is missing members", async () => {
+      const assets: MockAsset[] = [
+        { id: "1", originalFileName: "IMG_001.jpg", stack: { id: "stack1" } },
+        { id: "2", originalFileName: "IMG_001.dng", stack: { id: "stack1", primaryAssetId: "1" } },
+        { id: "3", originalFileName: "IMG_001.arw" },
+      ];
+
+      const result = await findMatchingGroups(
+        assets,
+        coverPattern,
+        /\.(dng|arw)$/i,
+        "extend"
+      );
+
+      expect(result.groups).toHaveLength(1);
+      expect(result.groups[0]!.existingStacks.map((s) => s.id)).toEqual(["stack1"]);
+      expect(result.skippedAlreadyStacked).toBe(0);
+    });
+
+    it("should not extend a stack that already holds every member", async () => {
+      const assets: MockAsset[] = [
+        { id: "1", originalFileName: "IMG_001.jpg", stack: { id: "stack1" } },
+        { id: "2", originalFileName: "IMG_001.dng", stack: { id: "stack1", primaryAssetId: "1" } },
+      ];
+
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern, "extend");
+
+      expect(result.groups).toHaveLength(0);
+      expect(result.skippedAlreadyStacked).toBe(1);
+    });
+
+    it("should replace a stack with a different primary", async () => {
+      const assets: MockAsset[] = [
+        { id: "1", originalFileName: "IMG_001.jpg", stack: { id: "stack1", primaryAssetId: "2" } },
+        { id: "2", originalFileName: "IMG_001.dng", stack: { id: "stack1" } },
+      ];
+
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern, "replace");
 
-      expect(result.pairs).toHaveLength(0);
+      expect(result.groups).toHaveLength(1);
+      expect(result.groups[0]!.cover.assetId).toBe("1");
+      expect(result.groups[0]!.existingStacks).toHaveLength(1);
+    });
+
+    it("should not replace a stack identical to the group", async () => {
+      const assets: MockAsset[] = [
+        { id: "1", originalFileName: "IMG_001.jpg", stack: { id: "stack1" } },
+        { id: "2", originalFileName: "IMG_001.dng", stack: { id: "stack1", primaryAssetId: "1" } },
+      ];
+
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern, "replace");
+
+      expect(result.groups).toHaveLength(0);
       expect(result.skippedAlreadyStacked).toBe(1);
     });
   });
 
+  describe("Directory and capture date scope", () => {
+    it("should not stack files from different directories", async () => {
+      const assets: MockAsset[] = [
+        { id: "1", originalFileName: "IMG_0001.jpg", originalPath: "/photos/2019/IMG_0001.jpg" },
+        { id: "2", originalFileName: "IMG_0001.dng", originalPath: "/photos/2023/IMG_0001.dng" },
+        { id: "3", originalFileName: "IMG_0002.jpg", originalPath: "/photos/2023/IMG_0002.jpg" },
+        { id: "4", originalFileName: "IMG_0002.dng", originalPath: "/photos/2023/IMG_0002.dng" },
+      ];
+
+      const result = await findStackGroups(assets, {
+        coverPattern,
+        rawPattern,
+        coverSelection: { strategy: "last", extensionPriority: [] },
+        sameDirectory: true,
+        verbose: false,
+      });
+
+      expect(result.groups.map((g) => g.stem)).toEqual(["IMG_0002"]);
+      expect(result.skippedCollision).toBe(2);
+      expect(result.skippedNoMatch).toBe(0);
+    });
+
+    it("should stack across directories when allowed", async () => {
+      const assets: MockAsset[] = [
+        { id: "1", originalFileName: "IMG_0001.jpg", originalPath: "/photos/a/IMG_0001.jpg" },
+        { id: "2", originalFileName: "IMG_0001.dng", originalPath: "/photos/b/IMG_0001.dng" },
+      ];
+
+      const result = await findStackGroups(assets, {
+        coverPattern,
+        rawPattern,
+        coverSelection: { strategy: "last", extensionPriority: [] },
+        sameDirectory: false,
+        verbose: false,
+      });
+
+      expect(result.groups).toHaveLength(1);
+      expect(result.skippedCollision).toBe(0);
+    });
+
+    it("should reject files outside the capture window", async () => {
+      const assets: MockAsset[] = [
+        { id: "1", originalFileName: "IMG_0001.jpg", takenAt: "2023-05-01T10:00:00Z" },
+        { id: "2", originalFileName: "IMG_0001.dng", takenAt: "2023-05-01T10:00:00Z" },
+        { id: "3", originalFileName: "IMG_0001.arw", takenAt: "2019-02-11T08:00:00Z" },
+      ];
+
+      const result = await findStackGroups(assets, {
+        coverPattern,
+        rawPattern: /\.(dng|arw)$/i,
+        coverSelection: { strategy: "last", extensionPriority: [] },
+        sameDirectory: true,
+        captureWindowMs: 24 * 60 * 60 * 1000,
+        verbose: false,
+      });
+
+      expect(result.groups).toHaveLength(1);
+      expect(result.groups[0]!.members.map((m) => m.assetId)).toEqual(["2"]);
+      expect(result.skippedCollision).toBe(1);
+    });
+  });
+
   describe("Google Pixel specific patterns", () => {
-    it("should match Google Pixel photos", () => {
+    it("should match Google Pixel photos", async () => {
       const assets: MockAsset[] = [
         { id: "1", originalFileName: "IMG_20240115_143022.jpg" },
         { id: "2", originalFileName: "IMG_20240115_143022.dng" },
       ];
 
-      const result = findMatchingPairs(assets, coverPattern, rawPattern);
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern);
 
-      expect(result.pairs).toHaveLength(1);
-      expect(result.pairs[0]!.stem).toBe("IMG_20240115_143022");
+      expect(result.groups).toHaveLength(1);
+      expect(result.groups[0]!.stem).toBe("IMG_20240115_143022");
     });
 
-    it("should match files with spaces", () => {
+    it("should match files with spaces", async () => {
       const assets: MockAsset[] = [
         { id: "1", originalFileName: "My Photo 001.jpg" },
         { id: "2", originalFileName: "My Photo 001.dng" },
       ];
 
-      const result = findMatchingPairs(assets, coverPattern, rawPattern);
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern);
 
-      expect(result.pairs).toHaveLength(1);
-      expect(result.pairs[0]!.stem).toBe("My Photo 001");
+      expect(result.groups).toHaveLength(1);
+      expect(result.groups[0]!.stem).toBe("My Photo 001");
     });
   });
 
   describe("Edge cases", () => {
-    it("should handle empty array", () => {
+    it("should handle empty array", async () => {
       const assets: MockAsset[] = [];
 
-      const result = findMatchingPairs(assets, coverPattern, rawPattern);
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern);
 
-      expect(result.pairs).toHaveLength(0);
+      expect(result.groups).toHaveLength(0);
       expect(result.skippedNoMatch).toBe(0);
       expect(result.skippedAlreadyStacked).toBe(0);
     });
 
-    it("should handle same file multiple times", () => {
+    it("should add extra cover matches as secondary assets", async () => {
       const assets: MockAsset[] = [
         { id: "1", originalFileName: "IMG_001.jpg" },
         { id: "2", originalFileName: "IMG_001.jpg" },
         { id: "3", originalFileName: "IMG_001.dng" },
       ];
 
-      const result = findMatchingPairs(assets, coverPattern, rawPattern);
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern);
 
-      expect(result.pairs).toHaveLength(1);
+      expect(result.groups).toHaveLength(1);
+      expect(result.groups[0]!.cover.assetId).toBe("2");
+      expect(result.groups[0]!.members.map((m) => m.assetId)).toEqual(["3", "1"]);
     });
 
-    it("should handle files with similar but different stems", () => {
+    it("should handle files with similar but different stems", async () => {
       const assets: MockAsset[] = [
         { id: "1", originalFileName: "IMG_001.jpg" },
         { id: "2", originalFileName: "IMG_0010.jpg" },
@@ -262,11 +357,349 @@ describe("Pair Matching Algorithm", () => {
         { id: "4", originalFileName: "IMG_001.dng" },
       ];
 
-      const result = findMatchingPairs(assets, coverPattern, rawPattern);
+      const result = await findMatchingGroups(assets, coverPattern, rawPattern);
 
-      expect(result.pairs).toHaveLength(2);
-      const stems = result.pairs.map(p => p.stem).sort();
+      expect(result.groups).toHaveLength(2);
+      const stems = result.groups.map(g => g.stem).sort();
       expect(stems).toEqual(["IMG_001", "IMG_0010"]);
     });
   });
 });
+
+function assetResponse(
+  asset: Pick<AssetResponseDto, "id" | "originalFileName"> & Partial<AssetResponseDto>
+): AssetResponseDto {
+  const timestamp = "2024-06-01T10:00:00.000Z";
+  return {
+    checksum: `checksum-${asset.id}`,
+    createdAt: timestamp,
+    deviceAssetId: asset.id,
+    deviceId: "test",
+    duration: "0:00:00.00000",
+    fileCreatedAt: timestamp,
+    fileModifiedAt: timestamp,
+    hasMetadata: true,
+    height: null,
+    isArchived: false,
+    isEdited: false,
+    isFavorite: false,
+    isOffline: false,
+    isTrashed: false,
+    localDateTime: timestamp,
+    originalPath: `/photos/${asset.originalFileName}`,
+    ownerId: "owner",
+    thumbhash: null,
+    type: AssetTypeEnum.Image,
+    updatedAt: timestamp,
+    visibility: AssetVisibility.Timeline,
+    width: null,
+    ...asset,
+  };
+}
+
+describe("Stacks in the asset search", () => {
+  it("should include stacked assets in the search", () => {
+    const search = buildAssetSearch({ albumIds: [], personIds: [], tagIds: [] }, 1, 1000);
+
+    expect(search.withStacked).toBe(true);
+  });
+
+  it("should extend a stack from the search with a newly uploaded RAW", async () => {
+    // A JPG stacked with its HEIC earlier, plus the DNG uploaded since.
+    const stack = { id: "s1", primaryAssetId: "jpg", assetCount: 2 };
+    const jpg = assetResponse({ id: "jpg", originalFileName: "IMG_001.jpg", stack });
+    const heic = assetResponse({ id: "heic", originalFileName: "IMG_001.heic", stack });
+    const dng = assetResponse({ id: "dng", originalFileName: "IMG_001.dng", stack: null });
+    const searchResult = [jpg, heic, dng].map(toAssetData);
+    const stacks = indexStacks([{ id: "s1", primaryAssetId: "jpg", assets: [jpg, heic] }]);
+
+    const result = await findStackGroups(searchResult, {
+      coverPattern: /\.jpg$/i,
+      rawPattern: /\.dng$/i,
+      coverSelection: { strategy: "last", extensionPriority: [] },
+      sameDirectory: true,
+      verbose: false,
+    });
+    const extended = resolveExistingStacks(result.groups, stacks, "extend");
+    const skipped = resolveExistingStacks(result.groups, stacks, "skip");
+
+    expect(extended.groups).toHaveLength(1);
+    expect(extended.groups[0]!.existingStacks.map((existing) => existing.id)).toEqual(["s1"]);
+    expect(skipped.groups).toHaveLength(0);
+    expect(skipped.skippedAlreadyStacked).toBe(1);
+  });
+});
+
+describe("Time Proximity Matching", () => {
+  const coverPattern = /\.(jpg|jpeg)$/i;
+  const rawPattern = /\.arw$/i;
+  const defaults = { toleranceMs: 1000, sameCamera: false, verbose: false };
+
+  it("should pair files with different names taken at the same time", async () => {
+    const assets: AssetData[] = [
+      { id: "1", originalFileName: "IMG_20240601_101502.jpg", takenAt: "2024-06-01T10:15:02.300Z" },
+      { id: "2", originalFileName: "DSC01234.ARW", takenAt: "2024-06-01T10:15:02.000Z" },
+    ];
+
+    const result = await findTimeGroups(assets, coverPattern, rawPattern, defaults);
+
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0]!.cover.assetId).toBe("1");
+    expect(result.groups[0]!.members.map((m) => m.assetId)).toEqual(["2"]);
+  });
+
+  it("should not pair files outside the tolerance", async () => {
+    const assets: AssetData[] = [
+      { id: "1", originalFileName: "IMG_0001.jpg", takenAt: "2024-06-01T10:15:00.000Z" },
+      { id: "2", originalFileName: "DSC01234.ARW", takenAt: "2024-06-01T10:15:05.000Z" },
+    ];
+
+    const result = await findTimeGroups(assets, coverPattern, rawPattern, defaults);
+
+    expect(result.groups).toHaveLength(0);
+    expect(result.skippedNoMatch).toBe(2);
+  });
+
+  it("should resolve ambiguous matches to the nearest timestamp", async () => {
+    const assets: AssetData[] = [
+      { id: "1", originalFileName: "IMG_0001.jpg", takenAt: "2024-06-01T10:15:00.000Z" },
+      { id: "2", originalFileName: "IMG_0002.jpg", takenAt: "2024-06-01T10:15:00.800Z" },
+      { id: "3", originalFileName: "DSC01234.ARW", takenAt: "2024-06-01T10:15:00.600Z" },
+    ];
+
+    const result = await findTimeGroups(assets, coverPattern, rawPattern, defaults);
+
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0]!.cover.assetId).toBe("2");
+    expect(result.skippedNoMatch).toBe(1);
+  });
+
+  it("should require the same camera when asked", async () => {
+    const assets: AssetData[] = [
+      {
+        id: "1",
+        originalFileName: "IMG_0001.jpg",
+        takenAt: "2024-06-01T10:15:00.000Z",
+        make: "Google",
+        model: "Pixel 8",
+      },
+      {
+        id: "2",
+        originalFileName: "DSC01234.ARW",
+        takenAt: "2024-06-01T10:15:00.000Z",
+        make: "SONY",
+        model: "ILCE-7M4",
+      },
+      {
+        id: "3",
+        originalFileName: "DSC01234.JPG",
+        takenAt: "2024-06-01T10:15:00.500Z",
+        make: "Sony",
+        model: "ILCE-7M4",
+      },
+    ];
+
+    const result = await findTimeGroups(assets, coverPattern, rawPattern, {
+      ...defaults,
+      sameCamera: true,
+    });
+
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0]!.cover.assetId).toBe("3");
+    expect(result.groups[0]!.members.map((m) => m.assetId)).toEqual(["2"]);
+  });
+
+  it("should skip assets without a capture time", async () => {
+    const assets: AssetData[] = [
+      { id: "1", originalFileName: "IMG_0001.jpg" },
+      { id: "2", originalFileName: "DSC01234.ARW", takenAt: "2024-06-01T10:15:00.000Z" },
+    ];
+
+    const result = await findTimeGroups(assets, coverPattern, rawPattern, defaults);
+
+    expect(result.groups).toHaveLength(0);
+    expect(result.skippedNoMatch).toBe(2);
+  });
+});
+
+describe("Sequence Grouping", () => {
+  const defaults: SequenceOptions = {
+    gapMs: 1000,
+    minFrames: 3,
+    bracketOnly: false,
+    coverRule: "middle",
+    verbose: false,
+  };
+
+  function frame(
+    id: string,
+    offsetMs: number,
+    extra: Partial<AssetData> = {}
+  ): AssetData {
+    const takenAt = new Date(Date.UTC(2024, 5, 1, 10, 0, 0) + offsetMs).toISOString();
+    return {
+      id,
+      originalFileName: `DSC0${id}.JPG`,
+      type: AssetTypeEnum.Image,
+      takenAt,
+      dateTimeOriginal: takenAt,
+      make: "SONY",
+      model: "ILCE-7M4",
+      ...extra,
+    };
+  }
+
+  it("should group consecutive frames within the gap", async () => {
+    const assets = [frame("1", 0), frame("2", 300), frame("3", 600), frame("4", 5000)];
+
+    const result = await findSequenceGroups(assets, defaults);
+
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0]!.cover.assetId).toBe("2");
+    expect(result.groups[0]!.members.map((m) => m.assetId)).toEqual(["1", "3"]);
+    expect(result.skippedNoMatch).toBe(1);
+  });
+
+  it("should not group frames from different cameras", async () => {
+    const assets = [
+      frame("1", 0),
+      frame("2", 200, { make: "Google", model: "Pixel 8" }),
+      frame("3", 400),
+      frame("4", 600, { make: "Google", model: "Pixel 8" }),
+    ];
+
+    const result = await findSequenceGroups(assets, { ...defaults, minFrames: 2 });
+
+    expect(result.groups).toHaveLength(2);
+  });
+
+  it("should not group assets without EXIF camera and capture time, or videos", async () => {
+    const noExif = { make: null, model: null, dateTimeOriginal: null };
+    const assets = [
+      frame("1", 0, noExif),
+      frame("2", 200, noExif),
+      frame("3", 400, noExif),
+      frame("4", 600, { dateTimeOriginal: null }),
+      frame("5", 800, { dateTimeOriginal: null }),
+      frame("6", 1000, { dateTimeOriginal: null }),
+      frame("7", 1200, { type: AssetTypeEnum.Video }),
+      frame("8", 1400, { type: AssetTypeEnum.Video }),
+      frame("9", 1600, { type: AssetTypeEnum.Video }),
+    ];
+
+    const result = await findSequenceGroups(assets, defaults);
+
+    expect(result.groups).toHaveLength(0);
+    expect(result.skippedNoMatch).toBe(9);
+  });
+
+  it("should pick the middle exposure as the cover of a bracket", async () => {
+    const assets = [
+      frame("1", 0, { exposureTime: "1/250" }),
+      frame("2", 100, { exposureTime: "1/1000" }),
+      frame("3", 200, { exposureTime: "1/60" }),
+    ];
+
+    const result = await findSequenceGroups(assets, defaults);
+
+    expect(result.groups[0]!.cover.assetId).toBe("1");
+  });
+
+  it("should use the first or favorited frame when asked", async () => {
+    const assets = [frame("1", 0), frame("2", 100), frame("3", 200, { isFavorite: true })];
+
+    const first = await findSequenceGroups(assets, { ...defaults, coverRule: "first" });
+    const favorite = await findSequenceGroups(assets, { ...defaults, coverRule: "favorite" });
+
+    expect(first.groups[0]!.cover.assetId).toBe("1");
+    expect(favorite.groups[0]!.cover.assetId).toBe("3");
+  });
+
+  it("should skip bursts when only brackets are wanted", async () => {
+    const assets = [
+      frame("1", 0, { exposureTime: "1/250" }),
+      frame("2", 100, { exposureTime: "1/250" }),
+      frame("3", 200, { exposureTime: "1/250" }),
+    ];
+
+    const result = await findSequenceGroups(assets, { ...defaults, bracketOnly: true });
+
+    expect(result.groups).toHaveLength(0);
+    expect(result.skippedNoMatch).toBe(3);
+  });
+
+  it("should parse exposure times", () => {
+    expect(parseExposureTime("1/250")).toBe(0.004);
+    expect(parseExposureTime("2.5")).toBe(2.5);
+    expect(parseExposureTime(null)).toBeNaN();
+  });
+});
+
+describe("Cover Selection", () => {
+  const candidates: AssetData[] = [
+    { id: "1", originalFileName: "IMG_001.heic", width: 4032, height: 3024, fileSize: 2_000_000 },
+    {
+      id: "2",
+      originalFileName: "IMG_001-edited.jpg",
+      width: 2000,
+      height: 1500,
+      fileSize: 5_000_000,
+      isFavorite: true,
+    },
+    { id: "3", originalFileName: "IMG_001.png", width: 1000, height: 750, fileSize: 1_000_000 },
+  ];
+
+  it("should keep the last match by default", () => {
+    const { cover, reason } = chooseCover(candidates, { strategy: "last", extensionPriority: [] });
+
+    expect(cover.id).toBe("3");
+    expect(reason).toBe("last match");
+  });
+
+  it("should pick by resolution, size, favorite and edited suffix", () => {
+    const pick = (strategy: "resolution" | "size" | "favorite" | "edited") =>
+      chooseCover(candidates, { strategy, extensionPriority: [] }).cover.id;
+
+    expect(pick("resolution")).toBe("1");
+    expect(pick("size")).toBe("2");
+    expect(pick("favorite")).toBe("2");
+    expect(pick("edited")).toBe("2");
+  });
+
+  it("should pick by extension priority", () => {
+    const { cover, reason } = chooseCover(candidates, {
+      strategy: "extension",
+      extensionPriority: ["png", "heic"],
+    });
+
+    expect(cover.id).toBe("3");
+    expect(reason).toBe("extension priority, .png");
+  });
+
+  it("should fall back to the last match when nothing ranks", () => {
+    const { cover } = chooseCover(
+      candidates.map((asset) => ({ ...asset, isFavorite: false })),
+      { strategy: "favorite", extensionPriority: [] }
+    );
+
+    expect(cover.id).toBe("3");
+  });
+
+  it("should record the decision on groups with several covers", async () => {
+    const assets: AssetData[] = [...candidates, { id: "4", originalFileName: "IMG_001.dng" }];
+
+    const result = await findStackGroups(assets, {
+      coverPattern: /\.(heic|jpg|png)$/i,
+      rawPattern: /\.dng$/i,
+      stemPattern: /^(IMG_\d+)/,
+      coverSelection: { strategy: "resolution", extensionPriority: [] },
+      sameDirectory: true,
+      verbose: false,
+    });
+
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0]!.cover.assetId).toBe("1");
+    expect(result.groups[0]!.coverReason).toBe("highest resolution, 4032x3024");
+    expect(result.groups[0]!.members.map((m) => m.assetId)).toEqual(["4", "2", "3"]);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "bun:test";
+import { CommandRegistry, type CommandDefinition } from "../../src/registry.ts";
+
+const handler = async () => 0;
+
+function createRegistry(): CommandRegistry {
+  const registry = new CommandRegistry();
+  registry.setGlobalOptions({
+    options: [{ name: "help", short: "h", type: "boolean", description: "Show help" }],
+    envVars: [],
+  });
+
+  const album: CommandDefinition = {
+    name: "album",
+    description: "Manage albums",
+    options: [{ name: "verbose", type: "boolean", description: "Show details" }],
+    handler,
+    subcommands: [
+      {
+        name: "list",
+        description: "List albums",
+        options: [{ name: "shared", type: "boolean", description: "Only shared albums" }],
+        examples: ["immich-ts album list --shared"],
+        handler,
+      },
+      {
+        name: "merge",
+        description: "Merge albums",
+        options: [
+          { name: "into", type: "string", required: true, description: "Target album" },
+        ],
+        handler,
+      },
+    ],
+  };
+  registry.register(album);
+  registry.register({ name: "validate", description: "Validate config", options: [], handler });
+  return registry;
+}
+
+describe("CommandRegistry", () => {
+  describe("resolve", () => {
+    const registry = createRegistry();
+
+    it("should resolve the deepest subcommand and keep the remaining arguments", () => {
+      const resolved = registry.resolve(["album", "merge", "Trip 1", "Trip 2"]);
+
+      expect(resolved?.command.name).toBe("merge");
+      expect(resolved?.path).toEqual(["album", "merge"]);
+      expect(resolved?.args).toEqual(["Trip 1", "Trip 2"]);
+    });
+
+    it("should stop at the group for unknown subcommands", () => {
+      const resolved = registry.resolve(["album", "rename"]);
+
+      expect(resolved?.path).toEqual(["album"]);
+      expect(resolved?.args).toEqual(["rename"]);
+      expect(resolved?.unknownSubcommand).toBe("rename");
+    });
+
+    it("should not report an unknown subcommand for commands without subcommands", () => {
+      const resolved = registry.resolve(["album", "merge", "Trip 1"]);
+
+      expect(resolved?.unknownSubcommand).toBeUndefined();
+      expect(registry.resolve(["album"])?.unknownSubcommand).toBeUndefined();
+    });
+
+    it("should return undefined for unknown commands", () => {
+      expect(registry.resolve(["tag"])).toBeUndefined();
+      expect(registry.resolve([])).toBeUndefined();
+    });
+  });
+
+  it("should accept options of the subcommand, its parents and globals", () => {
+    const registry = createRegistry();
+
+    expect(
+      registry.findUnsupportedOptions(["album", "list"], { shared: true, verbose: true, help: false })
+    ).toEqual([]);
+    expect(registry.findUnsupportedOptions(["album", "list"], { into: "Trip" })).toEqual(["into"]);
+    expect(registry.findUnsupportedOptions("validate", { shared: true })).toEqual(["shared"]);
+  });
+
+  it("should check the required options of the deepest subcommand", () => {
+    const registry = createRegistry();
+
+    expect(registry.validateRequiredOptions(["album", "merge"], {})).toEqual({
+      valid: false,
+      missing: ["into"],
+    });
+    expect(registry.validateRequiredOptions(["album", "list"], {}).valid).toBe(true);
+  });
+
+  it("should check the required options of parent commands", () => {
+    const registry = new CommandRegistry();
+    registry.register({
+      name: "library",
+      description: "Manage a library",
+      options: [{ name: "library", type: "string", required: true, description: "Library name" }],
+      subcommands: [{ name: "scan", description: "Scan a library", options: [], handler }],
+    });
+
+    expect(registry.validateRequiredOptions(["library", "scan"], {})).toEqual({
+      valid: false,
+      missing: ["library"],
+    });
+    expect(
+      registry.validateRequiredOptions(["library", "scan"], { library: "Photos" }).valid
+    ).toBe(true);
+  });
+
+  it("should register subcommand options for parsing", () => {
+    const { options } = createRegistry().buildParseArgsConfig();
+
+    expect(options.into).toEqual({ type: "string" });
+    expect(options.shared).toEqual({ type: "boolean" });
+  });
+
+  describe("generateHelp", () => {
+    const registry = createRegistry();
+
+    it("should list command groups with their subcommands", () => {
+      const help = registry.generateHelp();
+
+      expect(help).toContain("immich-ts <command> <subcommand> [options]");
+      expect(help).toContain("ALBUM COMMANDS:");
+      expect(help).toContain("ALBUM MERGE OPTIONS:");
+      expect(help).toContain("immich-ts album list --shared");
+    });
+
+    it("should show the help of a single group", () => {
+      const help = registry.generateHelp(["album"]);
+
+      expect(help).toContain("immich-ts album - Manage albums");
+      expect(help).toContain("immich-ts album <command> [options]");
+      expect(help).toContain("ALBUM LIST OPTIONS:");
+      expect(help).not.toContain("VALIDATE");
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "bun:test";
+import { isTransientError, runWithConcurrency, withRetry } from "../../src/api/retry.ts";
+
+const networkError = () => new TypeError("fetch failed");
+
+describe("isTransientError", () => {
+  it("should treat dropped connections as transient", () => {
+    expect(isTransientError(networkError())).toBe(true);
+    expect(isTransientError(new Error("read ECONNRESET"))).toBe(true);
+  });
+
+  it("should not retry other errors", () => {
+    expect(isTransientError(new Error("Not found or no stack.create access"))).toBe(false);
+    expect(isTransientError("boom")).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  it("should retry transient errors until the call succeeds", async () => {
+    let calls = 0;
+    const result = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 3) throw networkError();
+        return "ok";
+      },
+      { retries: 3, baseDelayMs: 1 }
+    );
+
+    expect(result).toBe("ok");
+    expect(calls).toBe(3);
+  });
+
+  it("should give up after the configured retries", async () => {
+    let calls = 0;
+    const call = withRetry(
+      async () => {
+        calls++;
+        throw networkError();
+      },
+      { retries: 2, baseDelayMs: 1 }
+    );
+
+    await expect(call).rejects.toThrow("fetch failed");
+    expect(calls).toBe(3);
+  });
+
+  it("should rethrow permanent errors immediately", async () => {
+    let calls = 0;
+    const call = withRetry(
+      async () => {
+        calls++;
+        throw new Error("Bad request");
+      },
+      { retries: 3, baseDelayMs: 1 }
+    );
+
+    await expect(call).rejects.toThrow("Bad request");
+    expect(calls).toBe(1);
+  });
+});
+
+describe("runWithConcurrency", () => {
+  it("should process every item without exceeding the limit", async () => {
+    let active = 0;
+    let peak = 0;
+    const seen: number[] = [];
+
+    await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+      active++;
+      peak = Math.max(peak, active);
+      await Bun.sleep(1);
+      seen.push(item);
+      active--;
+    });
+
+    expect(seen.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(peak).toBe(3);
+  });
+});
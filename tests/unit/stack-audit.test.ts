@@ -0,0 +1,65 @@
+import { describe, it, expect } from "bun:test";
+import { auditStacks, type AuditedStack } from "../../src/commands/stack-audit.ts";
+
+const coverRegex = /\.(jpg|jpeg)$/i;
+const last = { strategy: "last" as const, extensionPriority: [] };
+
+function buildStack(id: string, primaryAssetId: string, fileNames: string[]): AuditedStack {
+  return {
+    id,
+    primaryAssetId,
+    assets: fileNames.map((originalFileName, index) => ({
+      id: `${id}-${index}`,
+      originalFileName,
+    })),
+  };
+}
+
+describe("Stack audit", () => {
+  it("should accept stacks whose primary matches the cover pattern", () => {
+    const result = auditStacks(
+      [buildStack("s1", "s1-0", ["IMG_0001.jpg", "IMG_0001.dng"])],
+      coverRegex,
+      last
+    );
+
+    expect(result.correct).toBe(1);
+    expect(result.mismatches).toEqual([]);
+  });
+
+  it("should report a RAW primary with the cover it should have", () => {
+    const result = auditStacks(
+      [buildStack("s1", "s1-1", ["IMG_0001.jpg", "IMG_0001.dng"])],
+      coverRegex,
+      last
+    );
+
+    expect(result.mismatches).toHaveLength(1);
+    expect(result.mismatches[0]!.current.originalFileName).toBe("IMG_0001.dng");
+    expect(result.mismatches[0]!.expected.originalFileName).toBe("IMG_0001.jpg");
+  });
+
+  it("should use the cover strategy when several assets match", () => {
+    const stack = buildStack("s1", "s1-2", ["IMG_0001.jpg", "IMG_E0001.jpg", "IMG_0001.dng"]);
+    stack.assets[0]!.isFavorite = true;
+
+    const result = auditStacks([stack], coverRegex, {
+      strategy: "favorite",
+      extensionPriority: [],
+    });
+
+    expect(result.mismatches[0]!.expected.originalFileName).toBe("IMG_0001.jpg");
+    expect(result.mismatches[0]!.reason).toBe("favorited");
+  });
+
+  it("should report stacks without any cover match separately", () => {
+    const result = auditStacks(
+      [buildStack("s1", "s1-0", ["IMG_0001.dng", "IMG_0001.cr3"])],
+      coverRegex,
+      last
+    );
+
+    expect(result.noCover).toHaveLength(1);
+    expect(result.mismatches).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "bun:test";
+import type { ExistingStack, StackGroup } from "../../src/commands/stack.ts";
+import {
+  buildStackPlan,
+  findPlanConflicts,
+  parseStackPlan,
+  planToGroups,
+} from "../../src/commands/stack-plan.ts";
+
+const group: StackGroup = {
+  stem: "IMG_0001",
+  cover: { assetId: "a1", fileName: "IMG_0001.jpg" },
+  members: [{ assetId: "a2", fileName: "IMG_0001.dng" }],
+  existingStacks: [],
+  matchReason: 'same stem "IMG_0001" in /photos',
+  coverReason: "largest file",
+};
+
+const existing: ExistingStack = { id: "s1", primaryAssetId: "a1", assetIds: ["a1"] };
+
+describe("Stack plan", () => {
+  it("should record cover, members and the reason for each stack", () => {
+    const plan = buildStackPlan([group], "skip");
+
+    expect(plan.version).toBe(1);
+    expect(plan.existingPolicy).toBe("skip");
+    expect(plan.stacks).toEqual([
+      {
+        stem: "IMG_0001",
+        reason: 'same stem "IMG_0001" in /photos; cover: largest file',
+        cover: group.cover,
+        members: group.members,
+        existingStacks: [],
+      },
+    ]);
+  });
+
+  it("should round-trip through JSON", () => {
+    const plan = buildStackPlan([group], "extend");
+    const parsed = parseStackPlan(JSON.stringify(plan), "plan.json");
+
+    expect(parsed).toEqual(plan);
+    expect(planToGroups(parsed)[0]!.cover).toEqual(group.cover);
+  });
+
+  it("should reject malformed plan files", () => {
+    expect(() => parseStackPlan("{", "plan.json")).toThrow("Invalid plan file plan.json");
+    expect(() => parseStackPlan('{"version":2}', "plan.json")).toThrow("unsupported");
+    expect(() =>
+      parseStackPlan(
+        JSON.stringify({ version: 1, existingPolicy: "skip", stacks: [{ stem: "x" }] }),
+        "plan.json"
+      )
+    ).toThrow("malformed entry at stacks[0]");
+  });
+});
+
+describe("Stack plan validation", () => {
+  it("should accept a plan that still matches the server", () => {
+    const plan = buildStackPlan([group], "skip");
+
+    expect(findPlanConflicts(plan, new Set(), new Map())).toEqual([]);
+  });
+
+  it("should report deleted or trashed assets", () => {
+    const plan = buildStackPlan([group], "skip");
+
+    expect(findPlanConflicts(plan, new Set(["a2"]), new Map())).toEqual([
+      'IMG_0001: "IMG_0001.dng" no longer exists',
+    ]);
+  });
+
+  it("should report assets stacked since the plan was made", () => {
+    const plan = buildStackPlan([group], "skip");
+
+    expect(findPlanConflicts(plan, new Set(), new Map([["a1", existing]]))).toEqual([
+      'IMG_0001: "IMG_0001.jpg" is already in stack s1',
+    ]);
+  });
+
+  it("should allow stacks the plan already expected to extend", () => {
+    const plan = buildStackPlan([{ ...group, existingStacks: [existing] }], "extend");
+
+    expect(findPlanConflicts(plan, new Set(), new Map([["a1", existing]]))).toEqual([]);
+    expect(findPlanConflicts(plan, new Set(), new Map())).toEqual([
+      'IMG_0001: "IMG_0001.jpg" is no longer in its planned stack',
+    ]);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect } from "bun:test";
+import { findStackGroups } from "../../src/commands/stack.ts";
+import {
+  STACK_PRESETS,
+  getStackPreset,
+  resolveStackPatterns,
+} from "../../src/commands/stack-presets.ts";
+
+interface PresetSample {
+  cover: string[];
+  raw: string[];
+  stem: string;
+  ignored?: string[];
+}
+
+const samples: Record<string, PresetSample[]> = {
+  pixel: [
+    {
+      cover: ["PXL_20240115_143022123.RAW-01.MP.COVER.jpg"],
+      raw: ["PXL_20240115_143022123.RAW-02.ORIGINAL.dng"],
+      stem: "PXL_20240115_143022123",
+      ignored: ["PXL_20240115_143022123.mp4"],
+    },
+    {
+      cover: ["PXL_20231231_235959001.RAW-01.COVER.jpg"],
+      raw: ["PXL_20231231_235959001.RAW-02.ORIGINAL.dng"],
+      stem: "PXL_20231231_235959001",
+    },
+  ],
+  "iphone-proraw": [
+    {
+      cover: ["IMG_1234.HEIC", "IMG_E1234.HEIC"],
+      raw: ["IMG_1234.DNG"],
+      stem: "1234",
+      ignored: ["IMG_1234.MOV"],
+    },
+    {
+      cover: ["IMG_0042.JPG"],
+      raw: ["IMG_0042.DNG"],
+      stem: "0042",
+    },
+  ],
+  sony: [
+    {
+      cover: ["DSC01234.JPG"],
+      raw: ["DSC01234.ARW"],
+      stem: "DSC01234",
+      ignored: ["C0001.MP4"],
+    },
+    {
+      cover: ["_DSC5678.HIF"],
+      raw: ["_DSC5678.ARW"],
+      stem: "_DSC5678",
+    },
+  ],
+  fuji: [
+    {
+      cover: ["DSCF1234.HIF"],
+      raw: ["DSCF1234.RAF"],
+      stem: "DSCF1234",
+      ignored: ["DSCF1235.MOV"],
+    },
+    {
+      cover: ["DSCF0001.JPG"],
+      raw: ["DSCF0001.RAF"],
+      stem: "DSCF0001",
+    },
+  ],
+  canon: [
+    {
+      cover: ["IMG_1234.JPG"],
+      raw: ["IMG_1234.CR3"],
+      stem: "IMG_1234",
+      ignored: ["MVI_1235.MP4"],
+    },
+    {
+      cover: ["_MG_0042.JPG"],
+      raw: ["_MG_0042.CR3"],
+      stem: "_MG_0042",
+    },
+  ],
+};
+
+describe("Stack presets", () => {
+  it("should have samples for every preset", () => {
+    expect(Object.keys(samples).sort()).toEqual(
+      STACK_PRESETS.map((preset) => preset.name).sort()
+    );
+  });
+
+  for (const preset of STACK_PRESETS) {
+    describe(preset.name, () => {
+      const cover = new RegExp(preset.cover);
+      const raw = new RegExp(preset.raw);
+      const stem = new RegExp(preset.stemPattern);
+
+      for (const sample of samples[preset.name] ?? []) {
+        it(`should match ${sample.cover[0]} with ${sample.raw[0]}`, () => {
+          for (const fileName of sample.cover) {
+            expect(cover.test(fileName)).toBe(true);
+            expect(fileName.match(stem)?.[1]).toBe(sample.stem);
+          }
+          for (const fileName of sample.raw) {
+            expect(raw.test(fileName)).toBe(true);
+            expect(cover.test(fileName)).toBe(false);
+            expect(fileName.match(stem)?.[1]).toBe(sample.stem);
+          }
+          for (const fileName of sample.ignored ?? []) {
+            expect(cover.test(fileName)).toBe(false);
+            expect(raw.test(fileName)).toBe(false);
+          }
+        });
+
+        it(`should group ${sample.stem} into one stack`, async () => {
+          const fileNames = [...sample.raw, ...sample.cover, ...(sample.ignored ?? [])];
+          const assets = fileNames.map((originalFileName, index) => ({
+            id: String(index),
+            originalFileName,
+          }));
+
+          const result = await findStackGroups(assets, {
+            coverPattern: cover,
+            rawPattern: raw,
+            stemPattern: stem,
+            coverSelection: { strategy: "last", extensionPriority: [] },
+            sameDirectory: true,
+            verbose: false,
+          });
+
+          expect(result.groups).toHaveLength(1);
+          expect(result.groups[0]!.stem).toBe(sample.stem);
+          expect(result.groups[0]!.members).toHaveLength(
+            sample.cover.length + sample.raw.length - 1
+          );
+        });
+      }
+    });
+  }
+});
+
+describe("iphone-proraw counter rollover", () => {
+  const preset = getStackPreset("iphone-proraw")!;
+  const assets = [
+    { id: "1", originalFileName: "IMG_1234.DNG", takenAt: "2020-03-01T10:00:00Z" },
+    { id: "2", originalFileName: "IMG_1234.HEIC", takenAt: "2020-03-01T10:00:00Z" },
+    { id: "3", originalFileName: "IMG_1234.DNG", takenAt: "2024-07-09T18:00:00Z" },
+    { id: "4", originalFileName: "IMG_1234.HEIC", takenAt: "2024-07-09T18:00:00Z" },
+  ];
+
+  it("should not pair files from different years within the capture window", async () => {
+    const result = await findStackGroups(assets, {
+      coverPattern: new RegExp(preset.cover),
+      rawPattern: new RegExp(preset.raw),
+      stemPattern: new RegExp(preset.stemPattern),
+      coverSelection: { strategy: "last", extensionPriority: [] },
+      sameDirectory: true,
+      captureWindowMs: 60 * 60 * 1000,
+      verbose: false,
+    });
+
+    for (const group of result.groups) {
+      const ids = [group.cover.assetId, ...group.members.map((m) => m.assetId)].sort();
+      expect(["1,2", "3,4"]).toContain(ids.join(","));
+    }
+    expect(result.groups.length).toBeGreaterThan(0);
+  });
+});
+
+describe("resolveStackPatterns", () => {
+  it("should fill all patterns from a preset", () => {
+    const pixel = getStackPreset("pixel")!;
+
+    expect(resolveStackPatterns({ preset: "pixel" })).toEqual({
+      coverPattern: pixel.cover,
+      rawPattern: pixel.raw,
+      stemPattern: pixel.stemPattern,
+    });
+  });
+
+  it("should let explicit flags override the preset", () => {
+    const result = resolveStackPatterns({ preset: "sony", raw: "\\.(ARW|DNG)$" });
+
+    expect(result.rawPattern).toBe("\\.(ARW|DNG)$");
+    expect(result.coverPattern).toBe(getStackPreset("sony")!.cover);
+  });
+
+  it("should require --cover and --raw without a preset", () => {
+    expect(() => resolveStackPatterns({ raw: "\\.dng$" })).toThrow(
+      "Missing required option: --cover"
+    );
+    expect(() => resolveStackPatterns({ cover: "\\.jpg$" })).toThrow(
+      "Missing required option: --raw"
+    );
+  });
+
+  it("should reject unknown presets", () => {
+    expect(() => resolveStackPatterns({ preset: "nokia" })).toThrow(
+      'Unknown preset: "nokia"'
+    );
+  });
+});
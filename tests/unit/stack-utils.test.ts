@@ -1,4 +1,5 @@
 import { describe, it, expect } from "bun:test";
+import { parseDateRange } from "../../src/dates.ts";
 
 function getFileStem(fileName: string): string {
   const lastDot = fileName.lastIndexOf(".");
@@ -90,35 +91,23 @@ describe("Regex pattern matching", () => {
 });
 
 describe("Date parsing", () => {
-  function parseDateFilter(
-    dateStr?: string
-  ): { gte?: string; lte?: string } | undefined {
-    if (!dateStr) return undefined;
-    const date = new Date(dateStr);
-    if (isNaN(date.getTime())) {
-      throw new Error(`Invalid date format: ${dateStr}`);
-    }
-    return { gte: date.toISOString() };
-  }
-
   it("should parse valid ISO date", () => {
-    const result = parseDateFilter("2024-01-15");
-    expect(result?.gte).toBeDefined();
-    expect(result?.gte?.startsWith("2024-01-15")).toBe(true);
+    const result = parseDateRange("2024-01-15", undefined, { timeZone: "UTC" });
+    expect(result.after).toBe("2024-01-15T00:00:00.000Z");
   });
 
   it("should return undefined for empty date", () => {
-    expect(parseDateFilter(undefined)).toBeUndefined();
-    expect(parseDateFilter("")).toBeUndefined();
+    expect(parseDateRange(undefined, undefined)).toEqual({});
+    expect(parseDateRange("", "")).toEqual({});
   });
 
   it("should throw for invalid date format", () => {
-    expect(() => parseDateFilter("not-a-date")).toThrow();
-    expect(() => parseDateFilter("invalid")).toThrow();
+    expect(() => parseDateRange("not-a-date", undefined)).toThrow("Invalid date format");
+    expect(() => parseDateRange(undefined, "invalid")).toThrow("Invalid date format");
   });
 
   it("should parse full datetime string", () => {
-    const result = parseDateFilter("2024-01-15T10:30:00Z");
-    expect(result?.gte).toBeDefined();
+    const result = parseDateRange(undefined, "2024-01-15T10:30:00Z");
+    expect(result.before).toBe("2024-01-15T10:30:00.000Z");
   });
 });
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "bun:test";
+import { parseStackManifest } from "../../src/commands/stack-manifest.ts";
+import {
+  filterStacks,
+  selectFromManifest,
+  type StackSummary,
+} from "../../src/commands/unstack.ts";
+
+const stacks: StackSummary[] = [
+  { id: "s1", description: "a.jpg + a.dng", assetIds: ["a1", "a2"], takenAt: "2024-06-02T10:00:00Z" },
+  { id: "s2", description: "b.jpg + b.dng", assetIds: ["b1", "b2"], takenAt: "2024-07-10T10:00:00Z" },
+  { id: "s3", description: "c.jpg + c.dng", assetIds: ["c1", "c2"] },
+];
+
+describe("Unstack by filter", () => {
+  it("should select stacks with an asset in every album", () => {
+    const result = filterStacks(stacks, {
+      albumAssetIds: [new Set(["a2", "c1"]), new Set(["a1"])],
+    });
+
+    expect(result.map((stack) => stack.id)).toEqual(["s1"]);
+  });
+
+  it("should select stacks by the primary capture date", () => {
+    const result = filterStacks(stacks, {
+      albumAssetIds: [],
+      after: new Date("2024-06-01").getTime(),
+      before: new Date("2024-06-30").getTime(),
+    });
+
+    expect(result.map((stack) => stack.id)).toEqual(["s1"]);
+  });
+
+  it("should skip stacks without a capture date when filtering by date", () => {
+    const result = filterStacks(stacks, {
+      albumAssetIds: [],
+      after: new Date("2000-01-01").getTime(),
+    });
+
+    expect(result.map((stack) => stack.id)).toEqual(["s1", "s2"]);
+  });
+});
+
+describe("Unstack by manifest", () => {
+  const manifest = parseStackManifest(
+    JSON.stringify({
+      version: 1,
+      createdAt: "2024-06-01T10:00:00.000Z",
+      stacks: [
+        {
+          id: "s2",
+          stem: "b",
+          cover: { assetId: "b1", fileName: "b.jpg" },
+          members: [{ assetId: "b2", fileName: "b.dng" }],
+        },
+        {
+          id: "gone",
+          stem: "d",
+          cover: { assetId: "d1", fileName: "d.jpg" },
+          members: [{ assetId: "d2", fileName: "d.dng" }],
+        },
+      ],
+    }),
+    "manifest.json"
+  );
+
+  it("should select exactly the stacks in the manifest", () => {
+    const result = selectFromManifest(manifest, stacks);
+
+    expect(result.selected.map((stack) => stack.id)).toEqual(["s2"]);
+    expect(result.missing).toEqual(["d"]);
+  });
+
+  it("should reject malformed manifests", () => {
+    expect(() => parseStackManifest("[]", "manifest.json")).toThrow(
+      "Invalid manifest manifest.json"
+    );
+    expect(() =>
+      parseStackManifest(JSON.stringify({ version: 1, stacks: [{ id: 1 }] }), "manifest.json")
+    ).toThrow("malformed entry at stacks[0]");
+  });
+});
+
+describe("Unstack an extend or replace run", () => {
+  const current: StackSummary[] = [
+    { id: "merged", description: "e.jpg + e.dng + e.heic", assetIds: ["e1", "e2", "e3"] },
+    { id: "other", description: "f.jpg + f.dng", assetIds: ["f1", "f2"] },
+  ];
+
+  function manifestWith(replacedStacks: unknown[]) {
+    return parseStackManifest(
+      JSON.stringify({
+        version: 1,
+        createdAt: "2024-06-01T10:00:00.000Z",
+        stacks: [
+          {
+            id: "merged",
+            stem: "e",
+            cover: { assetId: "e1", fileName: "e.jpg" },
+            members: [{ assetId: "e3", fileName: "e.dng" }],
+            replacedStacks,
+          },
+        ],
+      }),
+      "manifest.json"
+    );
+  }
+
+  it("should delete the merged stack and restore the user's original stack", () => {
+    const original = { id: "original", primaryAssetId: "e2", assetIds: ["e1", "e2"] };
+    const result = selectFromManifest(manifestWith([original]), current);
+
+    expect(result.selected.map((stack) => stack.id)).toEqual(["merged"]);
+    expect(result.restore).toEqual([original]);
+    expect(result.refused).toEqual([]);
+  });
+
+  it("should refuse entries whose original assets are now in another stack", () => {
+    const original = { id: "original", primaryAssetId: "e2", assetIds: ["e2", "f1"] };
+    const result = selectFromManifest(manifestWith([original]), current);
+
+    expect(result.selected).toEqual([]);
+    expect(result.restore).toEqual([]);
+    expect(result.refused).toEqual([
+      { stem: "e", reason: "1 asset of the stacks it replaced is now in another stack" },
+    ]);
+  });
+
+  it("should restore stacks deleted for a stack that failed to be created", () => {
+    const manifest = parseStackManifest(
+      JSON.stringify({
+        version: 1,
+        createdAt: "2024-06-01T10:00:00.000Z",
+        stacks: [],
+        deletedStacks: [
+          { id: "lost", primaryAssetId: "g1", assetIds: ["g1", "g2"] },
+          { id: "taken", primaryAssetId: "f1", assetIds: ["f1", "h1"] },
+        ],
+      }),
+      "manifest.json"
+    );
+    const result = selectFromManifest(manifest, current);
+
+    expect(result.selected).toEqual([]);
+    expect(result.restore.map((stack) => stack.id)).toEqual(["lost"]);
+    expect(result.refused).toEqual([
+      { stem: "stack taken", reason: "1 of its assets is now in another stack" },
+    ]);
+  });
+
+  it("should reject malformed replaced stacks", () => {
+    expect(() => manifestWith([{ id: "original", assetIds: ["e1"] }])).toThrow(
+      "malformed entry at stacks[0]"
+    );
+  });
+});